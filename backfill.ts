@@ -0,0 +1,198 @@
+/**
+ * Progress and reports of a historical backfill.
+ * A backfill walks a date range outside the sync window page by page and links or creates the items of one
+ * platform on the other. After every finished page its progress is written to a JSON file next to the sync state,
+ * so an interrupted backfill over the same range and direction continues with the next page.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { writeFileAtomic } from "./state";
+import { MatchSuggestion, PlannedAction } from "./plan";
+
+const PROGRESS_VERSION = 1;
+
+// Backfill types
+export type BackfillDirection = "notion-to-morgen" | "morgen-to-notion";
+
+export const BACKFILL_DIRECTIONS: BackfillDirection[] = ["notion-to-morgen", "morgen-to-notion"];
+
+export type BackfillItem = {
+  title: string;
+  date: string;
+  // null for the created side in dry-run mode
+  notionPageId: string | null;
+  morgenEventId: string | null;
+}
+
+export type BackfillReport = {
+  direction: BackfillDirection;
+  from: string;
+  to: string;
+  dryRun: boolean;
+  // the first day that is not backfilled yet; equal to the day after "to" once the backfill is complete
+  nextPageStart: string;
+  complete: boolean;
+  alreadyLinked: number;
+  created: BackfillItem[];
+  linked: BackfillItem[];
+  // items created on the other platform whose link could not be written; they are linked when the backfill is resumed
+  unlinked: BackfillItem[];
+  // possible matches that were neither linked nor created
+  matches: MatchSuggestion[];
+  // the failed actions of the last run; their page is backfilled again when the backfill is resumed
+  failed: PlannedAction[];
+}
+
+type BackfillProgress = {
+  version: number;
+  savedAt: string;
+  report: BackfillReport;
+}
+
+/**
+ * Returns the path of the backfill progress file, configurable through the BACKFILL_PROGRESS_PATH environment variable.
+ *
+ * @returns {string} - The absolute path of the progress file.
+ */
+export function getBackfillProgressPath(): string {
+  return path.resolve(process.env.BACKFILL_PROGRESS_PATH || ".morgennotion-backfill.json");
+}
+
+/**
+ * Creates the report of a backfill that has not started yet.
+ *
+ * @param {BackfillDirection} direction - The platform items are read from and the one they are created on.
+ * @param {string} from - The first day of the range, as an ISO date.
+ * @param {string} to - The last day of the range, as an ISO date.
+ * @param {boolean} dryRun - Whether the backfill only plans its actions.
+ * @returns {BackfillReport} - An empty report.
+ */
+export function createBackfillReport(direction: BackfillDirection, from: string, to: string, dryRun: boolean): BackfillReport {
+  return {
+    direction,
+    from,
+    to,
+    dryRun,
+    nextPageStart: from,
+    complete: false,
+    alreadyLinked: 0,
+    created: [],
+    linked: [],
+    unlinked: [],
+    matches: [],
+    failed: [],
+  };
+}
+
+/**
+ * Loads the report of an unfinished backfill over the given range and direction.
+ * Progress of a backfill over another range or direction is ignored, and a corrupt file is reported and ignored.
+ *
+ * @param {BackfillDirection} direction - The direction of the backfill.
+ * @param {string} from - The first day of the range.
+ * @param {string} to - The last day of the range.
+ * @param {string} [progressPath] - The path of the progress file.
+ * @returns {Promise<BackfillReport | null>} - The report so far, or null to start from the beginning.
+ */
+export async function loadBackfillProgress(direction: BackfillDirection, from: string, to: string, progressPath = getBackfillProgressPath()):
+  Promise<BackfillReport | null> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(progressPath, "utf8");
+  } catch (error) {
+    if (error.code !== "ENOENT") {
+      console.error("Error reading backfill progress:", error.message);
+    }
+    return null;
+  }
+
+  try {
+    const progress = JSON.parse(raw) as BackfillProgress;
+    if (progress.version !== PROGRESS_VERSION || typeof progress.report !== "object" || progress.report === null) {
+      console.error(`Ignoring backfill progress with unexpected format in ${progressPath}`);
+      return null;
+    }
+    const report = progress.report;
+    if (report.direction !== direction || report.from !== from || report.to !== to) {
+      console.warn(`Ignoring the unfinished ${report.direction} backfill from ${report.from} to ${report.to} in ${progressPath}`);
+      return null;
+    }
+    return { ...report, unlinked: report.unlinked ?? [] };
+  } catch (error) {
+    console.error("Error parsing backfill progress:", error.message);
+    return null;
+  }
+}
+
+/**
+ * Saves the report of an unfinished backfill to disk atomically.
+ *
+ * @param {BackfillReport} report - The report so far.
+ * @param {string} [progressPath] - The path of the progress file.
+ */
+export async function saveBackfillProgress(report: BackfillReport, progressPath = getBackfillProgressPath()) {
+  const progress: BackfillProgress = {
+    version: PROGRESS_VERSION,
+    savedAt: new Date().toISOString(),
+    report,
+  };
+
+  await writeFileAtomic(progressPath, JSON.stringify(progress, null, 2));
+}
+
+/**
+ * Removes the progress file of a finished backfill, so the same range can be backfilled again later.
+ *
+ * @param {string} [progressPath] - The path of the progress file.
+ */
+export async function clearBackfillProgress(progressPath = getBackfillProgressPath()) {
+  await fs.rm(progressPath, { force: true });
+}
+
+/**
+ * Formats a backfill report as human-readable text.
+ *
+ * @param {BackfillReport} report - The report to format.
+ * @returns {string} - The formatted report.
+ */
+export function formatBackfillReport(report: BackfillReport): string {
+  const state = report.complete ? "complete" : `stopped before ${report.nextPageStart}`;
+  const lines = [`Backfill ${report.direction} from ${report.from} to ${report.to}${report.dryRun ? " (dry run)" : ""}: ${state}`];
+  const target = report.direction === "notion-to-morgen" ? "Morgen event" : "Notion task";
+  const describe = (item: BackfillItem) => `"${item.title}" (${item.date})  page ${item.notionPageId ?? "-"} <-> event ${item.morgenEventId ?? "-"}`;
+
+  lines.push(`Already linked: ${report.alreadyLinked}`);
+  lines.push(`${report.dryRun ? "Would create" : "Created"} ${target}s (${report.created.length}):`);
+  for (const item of report.created) {
+    lines.push(`  + ${describe(item)}`);
+  }
+  lines.push(`${report.dryRun ? "Would link" : "Linked"} to existing items (${report.linked.length}):`);
+  for (const item of report.linked) {
+    lines.push(`  = ${describe(item)}`);
+  }
+
+  if (report.unlinked.length) {
+    lines.push(`Created but not linked yet (${report.unlinked.length}); run the backfill again to link them:`);
+    for (const item of report.unlinked) {
+      lines.push(`  ~ ${describe(item)}`);
+    }
+  }
+
+  if (report.matches.length) {
+    lines.push(`Possible matches to confirm (not created):`);
+    lines.push(`  Set the Morgen Event ID of the right Notion tasks, then run the backfill again with --create-unmatched.`);
+    for (const match of report.matches) {
+      lines.push(`  ? Notion task "${match.notionTitle}" [${match.notionPageId}] = Morgen event "${match.morgenTitle}" [${match.morgenEventId}] (score ${match.score.toFixed(2)})`);
+    }
+  }
+
+  if (report.failed.length) {
+    lines.push(`Failed (${report.failed.length}); run the backfill again to resume:`);
+    for (const action of report.failed) {
+      lines.push(`  ! ${action.type} ${action.target} "${action.title}": ${action.error}`);
+    }
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,134 @@
+/**
+ * Conversion between the blocks of a Notion page body and Markdown.
+ * Paragraphs, headings, bulleted and numbered list items and to-dos are supported; other blocks and
+ * nested children are left out of the Markdown.
+ */
+
+import { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { markdownToRichText, richTextToMarkdown } from "./richtext";
+
+// Notion accepts at most 100 blocks in one request
+export const NOTION_BLOCK_LIMIT = 100;
+
+// Block types
+type WritableBlockType = "paragraph" | "heading_1" | "heading_2" | "heading_3" | "bulleted_list_item" | "numbered_list_item" | "to_do";
+
+const LIST_ITEM_TYPES = ["bulleted_list_item", "numbered_list_item", "to_do"];
+
+/**
+ * Renders the blocks of a Notion page body as Markdown.
+ * Consecutive list items follow each other on separate lines; other blocks are separated by an empty line.
+ *
+ * @param {any[]} blocks - The child blocks of the page.
+ * @returns {string} - The page body as Markdown.
+ */
+export function blocksToMarkdown(blocks: any[]): string {
+  let markdown = '';
+  let previousType: string | null = null;
+
+  for (const block of blocks) {
+    const line = renderBlock(block);
+    if (line === null) {
+      continue;
+    }
+    if (previousType !== null) {
+      markdown += LIST_ITEM_TYPES.includes(block.type) && LIST_ITEM_TYPES.includes(previousType) ? '\n' : '\n\n';
+    }
+    markdown += line;
+    previousType = block.type;
+  }
+  return markdown.trim();
+}
+
+/**
+ * Turns Markdown into Notion blocks.
+ * Lines starting with "#", "-", "*", "1." or "- [ ]" become headings, list items and to-dos;
+ * other lines form paragraphs, which end at an empty line.
+ *
+ * @param {string} markdown - The Markdown text.
+ * @returns {BlockObjectRequest[]} - The blocks to write to the page body.
+ */
+export function markdownToBlocks(markdown: string): BlockObjectRequest[] {
+  const blocks: BlockObjectRequest[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      blocks.push(buildBlock("paragraph", paragraph.join('\n')));
+    }
+    paragraph = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    let match: RegExpExecArray | null;
+    if (!line.trim()) {
+      flushParagraph();
+    } else if ((match = /^(#{1,3}) +(.*)$/.exec(line))) {
+      flushParagraph();
+      blocks.push(buildBlock(`heading_${match[1].length as 1 | 2 | 3}`, match[2]));
+    } else if ((match = /^[-*] \[([ xX])\] ?(.*)$/.exec(line))) {
+      flushParagraph();
+      blocks.push(buildBlock("to_do", match[2], match[1] !== ' '));
+    } else if ((match = /^[-*] +(.*)$/.exec(line))) {
+      flushParagraph();
+      blocks.push(buildBlock("bulleted_list_item", match[1]));
+    } else if ((match = /^\d+\. +(.*)$/.exec(line))) {
+      flushParagraph();
+      blocks.push(buildBlock("numbered_list_item", match[1]));
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Renders a single block as a line of Markdown.
+ *
+ * @param {any} block - The Notion block.
+ * @returns {string | null} - The Markdown, or null if the block type is not supported.
+ */
+function renderBlock(block: any): string | null {
+  const content = block[block.type];
+  const text = richTextToMarkdown(content?.rich_text ?? []);
+
+  switch (block.type) {
+    case "paragraph":
+      return text;
+    case "heading_1":
+      return `# ${text}`;
+    case "heading_2":
+      return `## ${text}`;
+    case "heading_3":
+      return `### ${text}`;
+    case "bulleted_list_item":
+      return `- ${text}`;
+    case "numbered_list_item":
+      return `1. ${text}`;
+    case "to_do":
+      return `- [${content.checked ? 'x' : ' '}] ${text}`;
+    default:
+      return null;
+  }
+}
+
+function buildBlock(type: WritableBlockType, markdown: string, checked = false): BlockObjectRequest {
+  const richText = markdownToRichText(markdown);
+  switch (type) {
+    case "paragraph":
+      return { object: "block", type, paragraph: { rich_text: richText } };
+    case "heading_1":
+      return { object: "block", type, heading_1: { rich_text: richText } };
+    case "heading_2":
+      return { object: "block", type, heading_2: { rich_text: richText } };
+    case "heading_3":
+      return { object: "block", type, heading_3: { rich_text: richText } };
+    case "bulleted_list_item":
+      return { object: "block", type, bulleted_list_item: { rich_text: richText } };
+    case "numbered_list_item":
+      return { object: "block", type, numbered_list_item: { rich_text: richText } };
+    case "to_do":
+      return { object: "block", type, to_do: { rich_text: richText, checked } };
+  }
+}
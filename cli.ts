@@ -0,0 +1,481 @@
+/**
+ * Command-line entry point for the Notion/Morgen sync. Run without arguments for the list of commands.
+ *
+ * Exit codes: 0 on success, 1 if the command or any action of the sync cycle failed, 2 on invalid usage,
+ * 3 if the sync cycle held back deletions because they exceeded the mass-deletion limits,
+ * 4 if the preflight check found problems with the environment, the config, the Notion database or the Morgen calendars,
+ * 5 if another instance is already syncing the same Notion database and Morgen calendar.
+ */
+
+import { parseArgs } from "util";
+import { backfill, getLinkStatus, linkPair, loadState, main, runPreflight, setAllowMassDeletion, setCreateUnmatched, setDryRun, setFullSync, setupDatabase, syncItems, unlinkPair } from "./index";
+import { formatPlanAsJson, formatPlanAsText, getFailedActions, SyncPlan } from "./plan";
+import { loadConfig } from "./config";
+import { LinkStatus, UniversalTaskEvent } from "./types";
+import { MORGEN_WEBHOOK_PATH, NOTION_WEBHOOK_PATH, startWebhookServer } from "./webhooks";
+import { BACKFILL_DIRECTIONS, BackfillDirection, formatBackfillReport } from "./backfill";
+import { formatPreflightProblems } from "./preflight";
+import { formatSetupPlan } from "./setup";
+import { acquireLock, LockError, SyncLock } from "./lock";
+import { startScheduler } from "./scheduler";
+
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_DELETIONS_HELD = 3;
+const EXIT_PREFLIGHT_FAILED = 4;
+const EXIT_LOCKED = 5;
+
+// commands that write to either platform or to the sync state hold the lock, unless they only plan
+const LOCKED_COMMANDS = ["sync", "daemon", "serve", "backfill", "setup", "link", "unlink"];
+
+const USAGE = `Usage: ts-node cli.ts <command> [options]
+
+Commands:
+  sync [--once] [--dry-run] [--json]   Run a single sync cycle (incremental unless --full)
+  daemon [--interval <seconds>]        Run a sync cycle on a schedule (default: sync.pollIntervalSeconds, 40)
+  serve [--port <port>] [--interval <seconds>]
+                                       Sync changes reported by webhooks, with full cycles as a safety net
+                                       (default: webhooks.port, 8787, and webhooks.pollIntervalSeconds, 900)
+  status [--json]                      Show linked and unlinked items in the sync window
+  check                                Check the environment, the config, the Notion database and the Morgen calendars
+  setup [--dry-run] [--json]           Add the properties and Area options the sync needs to the Notion database
+  link <pageId> <eventId> [--dry-run]  Link a Notion page to a Morgen event
+  unlink <pageId|eventId> [--dry-run]  Remove the link between a Notion page and a Morgen event
+  backfill --from <date> --to <date> --direction <notion-to-morgen|morgen-to-notion> [--dry-run] [--json]
+                                       Link or create the items of one platform on the other over a date range;
+                                       an interrupted backfill resumes when run again with the same range
+
+Options:
+  --allow-mass-deletion                Carry out deletions that exceed the configured limits (sync, daemon, serve)
+  --full                               Reconcile the whole sync window in every cycle (sync, daemon, serve)
+  --create-unmatched                   Create items whose possible match was not confirmed (sync, backfill)
+
+The sync, daemon, serve and backfill commands run the checks of "check" first and stop if any fail.
+Only one instance at a time can change the same database and calendar; the lock file is in the temporary
+directory unless SYNC_LOCK_PATH is set. The daemon and serve commands finish the running cycle on SIGTERM or SIGINT.
+The serve command reads the webhook secrets from NOTION_WEBHOOK_SECRET and MORGEN_WEBHOOK_SECRET.`;
+
+class UsageError extends Error {}
+
+type CliOptions = {
+  dryRun: boolean;
+  allowMassDeletion: boolean;
+  fullSync: boolean;
+  createUnmatched: boolean;
+  json: boolean;
+  interval: number;
+  port: number;
+  from: string;
+  to: string;
+  direction: BackfillDirection;
+}
+
+runCli(process.argv.slice(2)).then(exitCode => {
+  process.exitCode = exitCode;
+});
+
+/**
+ * Parses the command line and runs the requested command.
+ *
+ * @param {string[]} argv - The command-line arguments, without the node and script paths.
+ * @returns {Promise<number>} - The exit code of the command.
+ */
+async function runCli(argv: string[]): Promise<number> {
+  let command: string;
+  let args: string[];
+  let options: CliOptions;
+
+  try {
+    ({ command, args, options } = parseCommandLine(argv));
+  } catch (error) {
+    console.error(error.message);
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  try {
+    if (["sync", "daemon", "serve", "backfill", "check"].includes(command)) {
+      const problems = await runPreflight();
+      if (problems.length) {
+        console.error(formatPreflightProblems(problems));
+        return EXIT_PREFLIGHT_FAILED;
+      }
+      if (command === "check") {
+        console.log(formatPreflightProblems(problems));
+      }
+    }
+
+    let lock: SyncLock | null = null;
+    if (LOCKED_COMMANDS.includes(command) && !options.dryRun) {
+      lock = await acquireLock(getSyncLockKey());
+    }
+    try {
+      return await runCommand(command, args, options);
+    } finally {
+      await lock?.release();
+    }
+  } catch (error) {
+    console.error(`Error: ${error.message}`);
+    return error instanceof LockError ? EXIT_LOCKED : EXIT_FAILURE;
+  }
+}
+
+/**
+ * Runs a parsed command.
+ *
+ * @param {string} command - The command.
+ * @param {string[]} args - The positional arguments of the command.
+ * @param {CliOptions} options - The command-line options.
+ * @returns {Promise<number>} - The exit code of the command.
+ */
+async function runCommand(command: string, args: string[], options: CliOptions): Promise<number> {
+  switch (command) {
+    case "check":
+      return EXIT_SUCCESS;
+    case "sync":
+      return await runSyncOnce(options);
+    case "daemon":
+      return await runDaemon(options);
+    case "serve":
+      return await runServe(options);
+    case "status":
+      return await runStatus(options);
+    case "link":
+      setDryRun(options.dryRun);
+      await loadState();
+      await linkPair(args[0], args[1]);
+      console.log(`${options.dryRun ? "Would link" : "Linked"} Notion page ${args[0]} to Morgen event ${args[1]}`);
+      return EXIT_SUCCESS;
+    case "backfill":
+      return await runBackfill(options);
+    case "setup":
+      return await runSetup(options);
+    case "unlink":
+      setDryRun(options.dryRun);
+      await loadState();
+      await unlinkPair(args[0]);
+      console.log(`${options.dryRun ? "Would unlink" : "Unlinked"} the pair of ${args[0]}`);
+      return EXIT_SUCCESS;
+    default:
+      console.error(USAGE);
+      return EXIT_USAGE;
+  }
+}
+
+/**
+ * Splits the command line into the command, its positional arguments and its options,
+ * and checks that the command got the number of arguments it needs.
+ *
+ * @param {string[]} argv - The command-line arguments.
+ * @returns {{ command: string, args: string[], options: CliOptions }} - The parsed command line.
+ */
+function parseCommandLine(argv: string[]): { command: string, args: string[], options: CliOptions } {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      // "sync" always runs a single cycle; the flag is accepted for clarity
+      once: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      "allow-mass-deletion": { type: "boolean", default: false },
+      full: { type: "boolean", default: false },
+      "create-unmatched": { type: "boolean", default: false },
+      json: { type: "boolean", default: false },
+      interval: { type: "string" },
+      port: { type: "string" },
+      from: { type: "string" },
+      to: { type: "string" },
+      direction: { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  const [command, ...args] = positionals;
+  if (!command || values.help) {
+    throw new UsageError("No command given.");
+  }
+
+  const expectedArgs: { [command: string]: number } = { sync: 0, daemon: 0, serve: 0, status: 0, check: 0, setup: 0, link: 2, unlink: 1, backfill: 0 };
+  if (!(command in expectedArgs)) {
+    throw new UsageError(`Unknown command "${command}".`);
+  }
+  if (args.length !== expectedArgs[command]) {
+    throw new UsageError(`"${command}" expects ${expectedArgs[command]} argument(s), got ${args.length}.`);
+  }
+
+  const syncConfig = loadConfig();
+  const defaultInterval = command === "serve" ? syncConfig.webhooks.pollIntervalSeconds : syncConfig.sync.pollIntervalSeconds;
+  const interval = Number(values.interval ?? defaultInterval);
+  if (!Number.isFinite(interval) || interval <= 0) {
+    throw new UsageError(`Invalid interval "${values.interval}", expected a number of seconds.`);
+  }
+  const port = Number(values.port ?? syncConfig.webhooks.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new UsageError(`Invalid port "${values.port}", expected a number between 0 and 65535.`);
+  }
+  if (command === "backfill") {
+    if (!values.from || !values.to) {
+      throw new UsageError(`"backfill" expects --from and --to.`);
+    }
+    if (!BACKFILL_DIRECTIONS.includes(values.direction as BackfillDirection)) {
+      throw new UsageError(`Invalid direction "${values.direction ?? ""}", expected ${BACKFILL_DIRECTIONS.join(" or ")}.`);
+    }
+  }
+
+  return {
+    command,
+    args,
+    options: {
+      dryRun: values["dry-run"] as boolean,
+      allowMassDeletion: values["allow-mass-deletion"] as boolean,
+      fullSync: values.full as boolean,
+      createUnmatched: values["create-unmatched"] as boolean,
+      json: values.json as boolean || syncConfig.sync.planFormat === "json",
+      interval,
+      port,
+      from: values.from as string,
+      to: values.to as string,
+      direction: values.direction as BackfillDirection,
+    },
+  };
+}
+
+/**
+ * Runs a single sync cycle and prints its plan.
+ *
+ * @param {CliOptions} options - The command-line options.
+ * @returns {Promise<number>} - The exit code.
+ */
+async function runSyncOnce(options: CliOptions): Promise<number> {
+  setDryRun(options.dryRun);
+  setAllowMassDeletion(options.allowMassDeletion);
+  setFullSync(options.fullSync);
+  setCreateUnmatched(options.createUnmatched);
+  await loadState();
+
+  const plan = await main();
+  printPlan(plan, options.json);
+  if (getFailedActions(plan).length) {
+    return EXIT_FAILURE;
+  }
+  return plan.held.length ? EXIT_DELETIONS_HELD : EXIT_SUCCESS;
+}
+
+/**
+ * Runs a sync cycle immediately and then on a fixed interval, until the process gets SIGTERM or SIGINT.
+ * A cycle never starts while the previous one is running, and the running cycle is finished before shutting down.
+ *
+ * @param {CliOptions} options - The command-line options.
+ * @returns {Promise<number>} - Resolves once the daemon has shut down.
+ */
+async function runDaemon(options: CliOptions): Promise<number> {
+  if (options.dryRun) {
+    throw new Error("The daemon cannot run in dry-run mode; use \"sync --dry-run\" instead.");
+  }
+  setAllowMassDeletion(options.allowMassDeletion);
+  setFullSync(options.fullSync);
+  await loadState();
+
+  console.log(`Syncing every ${options.interval} seconds.`);
+  const scheduler = startScheduler({
+    intervalMs: options.interval * 1000,
+    jitterMs: loadConfig().sync.jitterSeconds * 1000,
+    task: runScheduledCycle,
+  });
+
+  const signal = await waitForShutdownSignal();
+  console.log(`${signal} received, finishing the running sync cycle before shutting down.`);
+  await scheduler.stop();
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Runs the webhook receiver: changes reported by Notion and Morgen are synced item by item,
+ * and a full sync cycle still runs on a longer interval to catch missed notifications.
+ * On SIGTERM or SIGINT, the running cycle and the changes received so far are synced before shutting down.
+ *
+ * @param {CliOptions} options - The command-line options.
+ * @returns {Promise<number>} - Resolves once the receiver has shut down.
+ */
+async function runServe(options: CliOptions): Promise<number> {
+  if (options.dryRun) {
+    throw new Error("The webhook receiver cannot run in dry-run mode; use \"sync --dry-run\" instead.");
+  }
+  setAllowMassDeletion(options.allowMassDeletion);
+  setFullSync(options.fullSync);
+  await loadState();
+
+  const syncConfig = loadConfig();
+  const server = await startWebhookServer({
+    host: syncConfig.webhooks.host,
+    port: options.port,
+    notionSecret: process.env.NOTION_WEBHOOK_SECRET,
+    morgenSecret: process.env.MORGEN_WEBHOOK_SECRET,
+    databaseId: process.env.NOTION_DATABASE_ID!,
+    debounceMs: syncConfig.webhooks.debounceMs,
+    syncChanges: async changes => reportPlan("Item sync", await syncItems(changes)),
+  });
+  if (!process.env.NOTION_WEBHOOK_SECRET || !process.env.MORGEN_WEBHOOK_SECRET) {
+    console.warn("NOTION_WEBHOOK_SECRET or MORGEN_WEBHOOK_SECRET is not set; notifications without a secret are rejected.");
+  }
+
+  console.log(`Receiving webhooks at ${server.url}${NOTION_WEBHOOK_PATH} and ${server.url}${MORGEN_WEBHOOK_PATH}.`);
+  console.log(`Running a full sync every ${options.interval} seconds.`);
+  const scheduler = startScheduler({
+    intervalMs: options.interval * 1000,
+    jitterMs: syncConfig.sync.jitterSeconds * 1000,
+    task: () => server.runExclusive(runScheduledCycle),
+  });
+
+  const signal = await waitForShutdownSignal();
+  console.log(`${signal} received, finishing the running sync before shutting down.`);
+  await scheduler.stop();
+  await server.idle();
+  await server.close();
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Waits for the first SIGTERM or SIGINT.
+ *
+ * @returns {Promise<string>} - The name of the signal.
+ */
+function waitForShutdownSignal(): Promise<string> {
+  return new Promise<string>(resolve => {
+    const onSignal = (signal: string) => {
+      process.off("SIGTERM", onSignal);
+      process.off("SIGINT", onSignal);
+      resolve(signal);
+    };
+    process.on("SIGTERM", onSignal);
+    process.on("SIGINT", onSignal);
+  });
+}
+
+/**
+ * Returns what the lock of this instance protects: the Notion database, the default Morgen calendar
+ * and the calendars mapped to Areas, in a stable order.
+ *
+ * @returns {string} - The lock key.
+ */
+function getSyncLockKey(): string {
+  const calendars = new Set([`${process.env.MORGEN_ACCOUNT_ID}/${process.env.MORGEN_CALENDAR_ID}`]);
+  for (const calendar of Object.values(loadConfig().morgen.calendars)) {
+    calendars.add(`${calendar.accountId}/${calendar.calendarId}`);
+  }
+  return [process.env.NOTION_DATABASE_ID, ...[...calendars].sort()].join("|");
+}
+
+/**
+ * Runs one full sync cycle of a long-running command and reports its problems, without stopping on errors.
+ */
+async function runScheduledCycle() {
+  try {
+    reportPlan("Sync cycle", await main());
+  } catch (error) {
+    console.error('Sync cycle failed:', error.message);
+  }
+}
+
+/**
+ * Reports the failed actions, held deletions and unconfirmed matches of a sync.
+ *
+ * @param {string} name - The name of the sync in the messages.
+ * @param {SyncPlan} plan - The plan of the sync.
+ */
+function reportPlan(name: string, plan: SyncPlan) {
+  const failedActions = getFailedActions(plan);
+  if (failedActions.length) {
+    console.error(`${name} finished with ${failedActions.length} failed action(s).`);
+  }
+  if (plan.held.length) {
+    console.error(`${name} held ${plan.held.length} deletion(s): ${plan.heldReason}`);
+  }
+  if (plan.matches.length) {
+    console.error(`${name} found ${plan.matches.length} possible match(es) to confirm with "link" or "sync --create-unmatched".`);
+  }
+  if (plan.conflicts.length) {
+    console.error(`${name} left ${plan.conflicts.length} conflict(s) to settle by hand.`);
+  }
+}
+
+/**
+ * Backfills a date range in one direction and prints the report.
+ *
+ * @param {CliOptions} options - The command-line options.
+ * @returns {Promise<number>} - The exit code.
+ */
+async function runBackfill(options: CliOptions): Promise<number> {
+  setDryRun(options.dryRun);
+  setCreateUnmatched(options.createUnmatched);
+  await loadState();
+
+  const report = await backfill(options.direction, options.from, options.to);
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatBackfillReport(report));
+  return report.failed.length ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Adds what the sync needs to the Notion database and prints what was added and what is left to do.
+ *
+ * @param {CliOptions} options - The command-line options.
+ * @returns {Promise<number>} - The exit code.
+ */
+async function runSetup(options: CliOptions): Promise<number> {
+  setDryRun(options.dryRun);
+
+  const plan = await setupDatabase();
+  console.log(options.json ? JSON.stringify(plan, null, 2) : formatSetupPlan(plan));
+  return plan.error ? EXIT_FAILURE : EXIT_SUCCESS;
+}
+
+/**
+ * Prints the linked pairs and the unlinked items of both platforms.
+ *
+ * @param {CliOptions} options - The command-line options.
+ * @returns {Promise<number>} - The exit code.
+ */
+async function runStatus(options: CliOptions): Promise<number> {
+  const status = await getLinkStatus();
+  console.log(options.json ? JSON.stringify(status, null, 2) : formatLinkStatus(status));
+  return EXIT_SUCCESS;
+}
+
+/**
+ * Formats the link status as human-readable text.
+ *
+ * @param {LinkStatus} status - The link status to format.
+ * @returns {string} - The formatted status.
+ */
+function formatLinkStatus(status: LinkStatus): string {
+  const describe = (event: UniversalTaskEvent) => `"${event.title}" (${event.date})`;
+  const lines: string[] = [];
+
+  lines.push(`Linked (${status.linked.length}):`);
+  for (const eventPair of status.linked) {
+    lines.push(`  ${describe(eventPair.notion!)}  page ${eventPair.notion!.notionPageId} <-> event ${eventPair.morgen!.morgenEventId}`);
+  }
+
+  lines.push(`Only in Notion (${status.notionOnly.length}):`);
+  for (const task of status.notionOnly) {
+    lines.push(`  ${describe(task)}  page ${task.notionPageId}`);
+  }
+
+  lines.push(`Only in Morgen (${status.morgenOnly.length}):`);
+  for (const event of status.morgenOnly) {
+    lines.push(`  ${describe(event)}  event ${event.morgenEventId}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Prints the plan of a sync cycle as text or JSON.
+ *
+ * @param {SyncPlan} plan - The plan to print.
+ * @param {boolean} json - Whether to print JSON instead of text.
+ */
+function printPlan(plan: SyncPlan, json: boolean) {
+  console.log(json ? formatPlanAsJson(plan) : formatPlanAsText(plan));
+}
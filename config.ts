@@ -0,0 +1,234 @@
+/**
+ * Configuration for the Notion/Morgen sync.
+ * Values are read from an optional JSON file (MORGENNOTION_CONFIG, default "morgennotion.config.json")
+ * and merged over the defaults below, so an empty or missing file keeps the original behaviour.
+ */
+
+import { readFileSync } from "fs";
+import { Info } from "luxon";
+import * as path from "path";
+import { ConflictPolicy } from "./merge";
+import { RecurringEventMode } from "./recurrence";
+import { MorgenCalendar } from "./morgen";
+import { RequestConfig } from "./request";
+import { StatusConfig } from "./status";
+import { MatchingConfig } from "./matching";
+
+// Config types
+export type NotionPropertyMapping = {
+  title: string;
+  dueDate: string;
+  description: string;
+  area: string;
+  status: string;
+  morgenEventId: string;
+  lastUpdate: string;
+  // optional number property with the duration in minutes, used when the due date has no end
+  duration?: string;
+}
+
+export type NotionPageDefaults = {
+  area: string;
+  status: string;
+  duration: string;
+}
+
+export type SyncConfig = {
+  notion: {
+    properties: NotionPropertyMapping;
+    defaults: NotionPageDefaults;
+    // render the page body after the Description property into the Morgen description; descriptions then only
+    // flow from Notion to Morgen, except for the body written when a page is created from a Morgen event
+    pageBody: boolean;
+  };
+  sync: {
+    conflictPolicy: ConflictPolicy;
+    dryRun: boolean;
+    planFormat: "text" | "json";
+    moveLookupDays: number;
+    // one Notion page per occurrence of a recurring event, or one page per series
+    recurringEvents: RecurringEventMode;
+    // IANA zone for the sync window and for events sent to Morgen
+    timeZone: string;
+    // the window runs from the start of today minus lookBehindDays to the start of today plus lookAheadDays
+    lookBehindDays: number;
+    lookAheadDays: number;
+    pollIntervalSeconds: number;
+    // scheduled cycles start up to this much later than the interval, so instances don't run in lockstep
+    jitterSeconds: number;
+    // only fetch what changed since the last cycle, with a full reconciliation every fullSyncIntervalMinutes;
+    // pages archived in Notion are only noticed by a full reconciliation
+    incremental: boolean;
+    fullSyncIntervalMinutes: number;
+  };
+  safety: {
+    maxDeletions: number;
+    maxDeletionPercent: number;
+  };
+  requests: RequestConfig;
+  status: StatusConfig;
+  // pairing of new unlinked items on both sides, so they are linked instead of duplicated
+  matching: MatchingConfig;
+  links: {
+    // also write the Notion page ID as a "#PAGEID:<id>#" tag into Morgen descriptions; otherwise existing tags are removed
+    descriptionTag: boolean;
+  };
+  morgen: {
+    baseUrl: string;
+    // the Morgen calendar for each Notion Area; other Areas use MORGEN_ACCOUNT_ID and MORGEN_CALENDAR_ID
+    calendars: { [area: string]: MorgenCalendar };
+  };
+  backfill: {
+    // a backfill lists and syncs this many days at a time, and saves its progress after each of them
+    pageDays: number;
+  };
+  webhooks: {
+    host: string;
+    port: number;
+    // full sync cycles still run on this interval as a safety net for missed notifications
+    pollIntervalSeconds: number;
+    // changes reported within this time are synced together
+    debounceMs: number;
+  };
+}
+
+export const DEFAULT_CONFIG: SyncConfig = {
+  notion: {
+    properties: {
+      title: "Name",
+      dueDate: "Due date",
+      description: "Description",
+      area: "Area",
+      status: "Status",
+      morgenEventId: "Morgen Event ID",
+      lastUpdate: "Last Update",
+    },
+    defaults: {
+      area: "School",
+      status: "Not started",
+      duration: "PT1H",
+    },
+    pageBody: false,
+  },
+  sync: {
+    conflictPolicy: "newest",
+    dryRun: false,
+    planFormat: "text",
+    moveLookupDays: 90,
+    recurringEvents: "occurrence",
+    timeZone: "America/Chicago",
+    lookBehindDays: 1,
+    lookAheadDays: 2,
+    pollIntervalSeconds: 40,
+    jitterSeconds: 5,
+    incremental: false,
+    fullSyncIntervalMinutes: 60,
+  },
+  safety: {
+    maxDeletions: 5,
+    maxDeletionPercent: 50,
+  },
+  requests: {
+    // requests per second; Notion allows an average of three
+    rateLimits: { notion: 3, morgen: 1 },
+    maxRetries: 5,
+    initialBackoffMs: 1000,
+    maxBackoffMs: 60000,
+  },
+  status: {
+    enabled: false,
+    notionToMorgen: { "Done": "prefix" },
+    morgenToNotion: { done: "Done", declined: "", open: "Not started" },
+    donePrefix: "✓ ",
+    doneCalendarId: "",
+    selfEmail: "",
+  },
+  matching: {
+    enabled: false,
+    autoLinkScore: 0.85,
+    minScore: 0.5,
+    maxHoursApart: 24,
+  },
+  links: {
+    descriptionTag: false,
+  },
+  morgen: {
+    // can be pointed at a local stand-in server, also through MORGEN_API_URL
+    baseUrl: "https://api.morgen.so",
+    calendars: {},
+  },
+  backfill: {
+    pageDays: 7,
+  },
+  webhooks: {
+    host: "127.0.0.1",
+    port: 8787,
+    pollIntervalSeconds: 900,
+    debounceMs: 1000,
+  },
+};
+
+/**
+ * Returns the path of the config file, configurable through the MORGENNOTION_CONFIG environment variable.
+ *
+ * @returns {string} - The absolute path of the config file.
+ */
+export function getConfigPath(): string {
+  return path.resolve(process.env.MORGENNOTION_CONFIG || "morgennotion.config.json");
+}
+
+/**
+ * Loads the sync configuration and merges it over the defaults.
+ * A missing config file is not an error; an unreadable or invalid one is.
+ *
+ * @param {string} [configPath] - The path of the config file.
+ * @returns {SyncConfig} - The merged sync configuration.
+ */
+export function loadConfig(configPath = getConfigPath()): SyncConfig {
+  let raw: string;
+  try {
+    raw = readFileSync(configPath, "utf8");
+  } catch (error) {
+    if (error.code === "ENOENT") {
+      return DEFAULT_CONFIG;
+    }
+    throw new Error(`Could not read config file ${configPath}: ${error.message}`);
+  }
+
+  let userConfig: any;
+  try {
+    userConfig = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Config file ${configPath} is not valid JSON: ${error.message}`);
+  }
+
+  const syncConfig = mergeConfig(DEFAULT_CONFIG, userConfig);
+  if (!Info.isValidIANAZone(syncConfig.sync.timeZone)) {
+    throw new Error(`Config file ${configPath} has an unknown time zone "${syncConfig.sync.timeZone}"`);
+  }
+  return syncConfig;
+}
+
+/**
+ * Recursively merges user-supplied values over a default object.
+ * Plain objects are merged key by key; arrays and primitive values replace the default.
+ *
+ * @param {T} defaults - The default values.
+ * @param {any} overrides - The user-supplied values.
+ * @returns {T} - The merged object.
+ */
+function mergeConfig<T>(defaults: T, overrides: any): T {
+  if (!isPlainObject(defaults) || !isPlainObject(overrides)) {
+    return overrides === undefined ? defaults : overrides;
+  }
+
+  const merged: any = { ...defaults };
+  for (const key of Object.keys(overrides)) {
+    merged[key] = mergeConfig(merged[key], overrides[key]);
+  }
+  return merged;
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -4,83 +4,50 @@
  * Creation Date: 11/11/2023
  * Description: This script integrates Notion API and Morgen API to sync tasks/events.
  * Dependencies: Notion API, Morgen API, Luxon for date handling
+ * Usage: the sync is run through the command-line interface in cli.ts
  */
 
-import { Client } from "@notionhq/client";
+import { APIErrorCode, Client, isNotionClientError } from "@notionhq/client";
 import { config } from "dotenv";
-import axios from 'axios';
 import { PropertyItemObjectResponse } from "../../build/src/api-endpoints";
-import { DateTime } from 'luxon';
+import { BlockObjectRequest } from "@notionhq/client/build/src/api-endpoints";
+import { DateTime, Duration } from 'luxon';
+import { Task, MorgenEvent, UniversalTaskEvent, EventPair, NotionTaskCreationResponse, LinkStatus, PendingDeletion, ItemChanges, SyncCursors } from "./types";
+import { loadSyncState, saveSyncState } from "./state";
+import { loadConfig, NotionPropertyMapping } from "./config";
+import { fieldsAreEqual, mergeEventPair, MergeField } from "./merge";
+import { callApi, configureRequests, RequestError } from "./request";
+import { createMorgenClient, MorgenApiEvent, MorgenCalendar, MorgenCreateEventRequest, MorgenDeleteEventRequest, MorgenUpdateEventRequest, SeriesUpdateMode } from "./morgen";
+import { getEventReference, resolveRecurringEvents } from "./recurrence";
+import { addLinkTag, LinkMap, loadLinks, readLinkTag, saveLinks } from "./links";
+import { createSyncPlan, diffFields, FieldChange, getFailedActions, PlannedAction, SyncPlan } from "./plan";
+import { formatMorgenTitle, getStatusAction, MorgenStatus, readMorgenStatus } from "./status";
+import { haveSameText, markdownToRichText, richTextToMarkdown } from "./richtext";
+import { blocksToMarkdown, markdownToBlocks, NOTION_BLOCK_LIMIT } from "./blocks";
+import { findMatches } from "./matching";
+import { BackfillDirection, BackfillItem, BackfillReport, clearBackfillProgress, createBackfillReport, loadBackfillProgress, saveBackfillProgress } from "./backfill";
+import { checkConfig, checkDatabaseSchema, checkEnvironment, checkMorgenCalendars, describeRequestError, ExpectedCalendar, PreflightProblem } from "./preflight";
+import { buildDatabaseUpdate, DatabaseSetupPlan, planDatabaseSetup } from "./setup";
 
 config();
 
-const notion = new Client({ auth: process.env.NOTION_KEY });
+const notion = new Client({ auth: process.env.NOTION_KEY, baseUrl: process.env.NOTION_API_URL });
 const databaseId = process.env.NOTION_DATABASE_ID!;
-
-// Datatypes
-type Task = {
-  pageId:string;
-  eventId:string;
-  title:string;
-  dueDate:string;
-  description:string;
-  area:string;
-  status:string;
-  lastUpdate:string;
-}
-
-type MorgenEvent = {
-  eventId:string;
-  pageId:string;
-  title:string;
-  description:string;
-  start:string;
-  duration:string;
-  lastUpdate:string;
-}
-
-type UniversalTaskEvent = {
-  notionPageId: string | null;
-  morgenEventId: string | null;
-  title: string;
-  description: string;
-  date: string;
-  duration: string;
-  lastUpdate: string;
-}
-
-type EventPair = {
-  notion?: UniversalTaskEvent;
-  morgen?: UniversalTaskEvent;
-}
-
-type NotionTaskCreationResponse = {
-  object: string;
-  id: string;
-  created_time: string;
-  last_edited_time: string;
-  created_by: {
-      object: string;
-      id: string;
-  };
-  last_edited_by: {
-      object: string;
-      id: string;
-  };
-  cover: null | object;
-  icon: null | object;
-  parent: {
-      type: string;
-      database_id: string;
-  };
-  archived: boolean;
-  properties: {
-      [key: string]: any;
-  };
-  url: string;
-  public_url: string | null;
-  request_id: string;
+const syncConfig = loadConfig();
+const defaultCalendar: MorgenCalendar = {
+  accountId: process.env.MORGEN_ACCOUNT_ID!,
+  calendarId: process.env.MORGEN_CALENDAR_ID!,
 };
+const morgenClient = createMorgenClient({
+  apiKey: process.env.MORGEN_API_KEY!,
+  accountId: defaultCalendar.accountId,
+  calendarId: defaultCalendar.calendarId,
+  baseUrl: process.env.MORGEN_API_URL || syncConfig.morgen.baseUrl,
+});
+const propertyNames = syncConfig.notion.properties;
+configureRequests(syncConfig.requests);
+let dryRun = process.env.DRY_RUN === "true" || syncConfig.sync.dryRun;
+let allowMassDeletion = false;
 
 /**
  * Converts a Notion task object to a universal task/event format.
@@ -94,7 +61,13 @@ function convertNotionToUniversal(task: Task): UniversalTaskEvent {
     title: task.title,
     description: task.description,
     date: task.dueDate,
-    duration: "PT1H",
+    duration: task.duration,
+    status: task.status,
+    area: task.area,
+    accountId: null,
+    calendarId: null,
+    isSeries: false,
+    hasLinkTag: false,
     lastUpdate: task.lastUpdate,
   };
 }
@@ -112,36 +85,763 @@ function convertMorgenToUniversal(event: MorgenEvent): UniversalTaskEvent {
     description: event.description,
     date: event.start,
     duration: event.duration,
+    status: event.status,
+    area: getAreaForCalendar(event),
+    accountId: event.accountId,
+    calendarId: event.calendarId,
+    isSeries: event.isSeries,
+    hasLinkTag: event.hasLinkTag,
     lastUpdate: event.lastUpdate,
   };
 }
 
 let oldUniversalEventMap: { [key: string]: EventPair } = {};
-main()
-setInterval(main, 40000);
+let syncCursors: SyncCursors | null = null;
+let links: LinkMap = {};
+let currentPlan: SyncPlan = createSyncPlan(dryRun);
+let forceFullSync = false;
+// the events around the sync window, listed once per cycle by the first lookup of a missing event
+let morgenLookupEvents: Map<string, MorgenEvent> | null = null;
+let createUnmatched = false;
+
+// Notion rounds last_edited_time to the minute, so incremental cycles look back a little further
+const CURSOR_OVERLAP_MINUTES = 2;
+
+/**
+ * Turns dry-run mode on or off. In dry-run mode every action is recorded in the plan but no requests are sent.
+ *
+ * @param {boolean} enabled - Whether to only plan the sync.
+ */
+export function setDryRun(enabled: boolean) {
+  dryRun = enabled;
+}
+
+/**
+ * Allows the next sync cycles to carry out deletions that exceed the mass-deletion limits.
+ *
+ * @param {boolean} enabled - Whether to skip the mass-deletion safeguard.
+ */
+export function setAllowMassDeletion(enabled: boolean) {
+  allowMassDeletion = enabled;
+}
+
+/**
+ * Lets the next sync cycles create items that possibly match an unlinked item on the other side,
+ * instead of holding them back for confirmation. Confident matches are still linked.
+ *
+ * @param {boolean} enabled - Whether to create the items of ambiguous matches.
+ */
+export function setCreateUnmatched(enabled: boolean) {
+  createUnmatched = enabled;
+}
+
+/**
+ * Makes every following sync cycle a full reconciliation, even if incremental cycles are configured.
+ *
+ * @param {boolean} enabled - Whether to always fetch the whole sync window.
+ */
+export function setFullSync(enabled: boolean) {
+  forceFullSync = enabled;
+}
+
+/**
+ * Loads the persisted sync state, to be used as the previous state by the next sync cycle.
+ */
+export async function loadState() {
+  const state = await loadSyncState({
+    notionStatus: syncConfig.notion.defaults.status,
+    notionArea: syncConfig.notion.defaults.area,
+    morgenArea: getAreaForCalendar(defaultCalendar),
+  });
+  oldUniversalEventMap = state.eventMap;
+  syncCursors = state.cursors ?? null;
+  links = await loadLinks();
+}
 
 /**
  * The main function of the script. It manages the synchronization process between Notion and Morgen.
  * It fetches tasks from Notion and events from Morgen, converts them to a unified format,
  * combines these events, and then synchronizes them across both platforms.
+ * With incremental cycles, only the items changed since the last cycle are synchronized, and the whole
+ * sync window is reconciled on the configured interval.
+ * After a successful cycle the new event map and the links are persisted so the next start can pick up where it left off.
+ * In dry-run mode nothing is persisted and the returned plan is the only result.
  * This function is scheduled to run periodically.
+ *
+ * @returns {Promise<SyncPlan>} - The plan of all creates, updates and deletes of this cycle.
+ */
+export async function main(): Promise<SyncPlan> {
+  const cycleStart = DateTime.utc();
+  const fullSync = needsFullSync(cycleStart);
+
+  let plan: SyncPlan;
+  if (fullSync) {
+    const newUniversalEventMap = await fetchEventMap();
+    plan = await synchronizeEvents(oldUniversalEventMap, newUniversalEventMap);
+    if (plan.dryRun) {
+      return plan;
+    }
+    oldUniversalEventMap = newUniversalEventMap;
+  } else {
+    console.log(`Fetching changes since ${syncCursors!.changedSince}`);
+    const { oldMap, newMap } = await fetchChangedEventMaps(await findChangedItems(syncCursors!.changedSince));
+    plan = await synchronizeEvents(oldMap, newMap);
+    if (plan.dryRun) {
+      return plan;
+    }
+    replaceStatePairs(oldMap, newMap);
+  }
+
+  // after failed or held actions, the next cycle looks at the same changes again
+  if (!getFailedActions(plan).length && !plan.held.length && !plan.matches.length && !plan.conflicts.length) {
+    syncCursors = {
+      changedSince: cycleStart.toISO()!,
+      fullSyncAt: fullSync ? cycleStart.toISO()! : syncCursors!.fullSyncAt,
+    };
+  }
+
+  await persistState();
+  return plan;
+}
+
+/**
+ * Synchronizes only the given Notion pages and Morgen events, together with the items they are linked to.
+ * The affected items are fetched directly and go through the same compare and update path as a full cycle;
+ * the rest of the sync state is left as it is. Used for changes reported by webhooks.
+ *
+ * @param {ItemChanges} changes - The IDs of the changed Notion pages and Morgen events.
+ * @returns {Promise<SyncPlan>} - The plan of all creates, updates and deletes for these items.
+ */
+export async function syncItems(changes: ItemChanges): Promise<SyncPlan> {
+  const { oldMap, newMap } = await fetchChangedEventMaps(changes);
+  const plan = await synchronizeEvents(oldMap, newMap);
+  if (plan.dryRun) {
+    return plan;
+  }
+
+  replaceStatePairs(oldMap, newMap);
+  await persistState();
+  return plan;
+}
+
+/**
+ * Checks whether the next cycle has to fetch the whole sync window: incremental cycles are turned off,
+ * there is no cursor yet, or the last full reconciliation is older than the configured interval.
+ *
+ * @param {DateTime} cycleStart - The start of the cycle.
+ * @returns {boolean} - Returns true if the cycle must be a full reconciliation.
+ */
+function needsFullSync(cycleStart: DateTime): boolean {
+  if (forceFullSync || !syncConfig.sync.incremental || !syncCursors) {
+    return true;
+  }
+  const fullSyncAt = DateTime.fromISO(syncCursors.fullSyncAt);
+  return !fullSyncAt.isValid || cycleStart.diff(fullSyncAt, "minutes").minutes >= syncConfig.sync.fullSyncIntervalMinutes;
+}
+
+/**
+ * Finds the items that changed since the given time.
+ * Notion is queried for pages edited since then. Morgen has no such query, so the events in the sync window
+ * are listed and only those updated since then, new ones and linked ones that disappeared are kept.
+ *
+ * @param {string} changedSince - The start of the last cycle after which both sides were in sync.
+ * @returns {Promise<ItemChanges & { notionTasks: UniversalTaskEvent[], morgenEvents: UniversalTaskEvent[] }>} -
+ *   The IDs of the changed items, with the fetched tasks and events so they are not fetched again.
+ */
+async function findChangedItems(changedSince: string): Promise<ItemChanges & { notionTasks: UniversalTaskEvent[], morgenEvents: UniversalTaskEvent[] }> {
+  const { from, to } = getSyncWindow();
+  const since = DateTime.fromISO(changedSince).minus({ minutes: CURSOR_OVERLAP_MINUTES });
+
+  const notionTasks = (await getChangedTasksFromNotionDatabase(since)).map(convertNotionToUniversal);
+  const morgenEvents = (await getEventsFromMorgenAPI(from, to)).map(convertMorgenToUniversal);
+
+  const knownMorgenEventIds = new Set<string>();
+  for (const eventPair of Object.values(oldUniversalEventMap)) {
+    if (eventPair.morgen?.morgenEventId) {
+      knownMorgenEventIds.add(eventPair.morgen.morgenEventId);
+    }
+  }
+  const listedMorgenEventIds = new Set(morgenEvents.map(event => event.morgenEventId));
+
+  const changedMorgenEventIds = morgenEvents
+    .filter(event => !knownMorgenEventIds.has(event.morgenEventId) || !(DateTime.fromISO(event.lastUpdate) < since))
+    .map(event => event.morgenEventId);
+  const missingMorgenEventIds = [...knownMorgenEventIds].filter(id => !listedMorgenEventIds.has(id));
+
+  console.log(`${notionTasks.length} Notion pages and ${changedMorgenEventIds.length + missingMorgenEventIds.length} Morgen events changed.`);
+  return {
+    notionPageIds: notionTasks.map(task => task.notionPageId),
+    morgenEventIds: [...changedMorgenEventIds, ...missingMorgenEventIds],
+    notionTasks,
+    morgenEvents,
+  };
+}
+
+/**
+ * Builds the event maps for a sync of the given items, together with the items they are linked to.
+ * Items that were already fetched are used as they are; the others are fetched directly.
+ *
+ * @param {ItemChanges} changes - The IDs of the changed Notion pages and Morgen events.
+ * @param {UniversalTaskEvent[]} [changes.notionTasks] - Already fetched Notion tasks.
+ * @param {UniversalTaskEvent[]} [changes.morgenEvents] - All Morgen events in the sync window, if already listed.
+ * @returns {Promise<{ oldMap: { [key: string]: EventPair }, newMap: { [key: string]: EventPair } }>} -
+ *   The last synced and the current pairs of the affected items.
+ */
+async function fetchChangedEventMaps(changes: ItemChanges & { notionTasks?: UniversalTaskEvent[], morgenEvents?: UniversalTaskEvent[] }):
+  Promise<{ oldMap: { [key: string]: EventPair }, newMap: { [key: string]: EventPair } }> {
+  const { from, to } = getSyncWindow();
+  const notionPageIds = new Set(changes.notionPageIds);
+  const morgenEventIds = new Set(changes.morgenEventIds);
+
+  // include the other side of pairs that were linked at the last sync
+  for (const eventPair of Object.values(oldUniversalEventMap)) {
+    if (isAffectedPair(eventPair, notionPageIds, morgenEventIds)) {
+      addPairIds(eventPair, notionPageIds, morgenEventIds);
+    }
+  }
+
+  const notionTasks: UniversalTaskEvent[] = [...(changes.notionTasks ?? [])];
+  const fetchNotionTasks = async () => {
+    for (const task of notionTasks) {
+      if (task.morgenEventId) {
+        morgenEventIds.add(task.morgenEventId);
+      }
+    }
+    for (const notionPageId of notionPageIds) {
+      if (notionTasks.some(task => task.notionPageId === notionPageId)) {
+        continue;
+      }
+      const task = await findNotionTaskById(notionPageId);
+      if (task) {
+        notionTasks.push(task);
+        if (task.morgenEventId) {
+          morgenEventIds.add(task.morgenEventId);
+        }
+      }
+    }
+  };
+
+  await fetchNotionTasks();
+  let morgenEvents: UniversalTaskEvent[] = [];
+  if (morgenEventIds.size) {
+    morgenEvents = (changes.morgenEvents ?? (await getEventsFromMorgenAPI(from, to)).map(convertMorgenToUniversal))
+      .filter(event => matchesMorgenEventId(event.morgenEventId, morgenEventIds));
+    for (const event of morgenEvents) {
+      if (event.notionPageId) {
+        notionPageIds.add(event.notionPageId);
+      }
+    }
+    await fetchNotionTasks();
+  }
+
+  // items outside the sync window are left to the lookups of the deletion checks, as in a full cycle
+  const windowTasks = notionTasks.filter(task => {
+    const date = DateTime.fromISO(task.date, { zone: syncConfig.sync.timeZone });
+    return date >= from && date <= to;
+  });
+  recoverLinks(windowTasks, morgenEvents);
+
+  const newMap: { [key: string]: EventPair } = {};
+  processAndCombineEvents(windowTasks, morgenEvents, newMap);
+  const oldMap: { [key: string]: EventPair } = {};
+  for (const key of Object.keys(oldUniversalEventMap)) {
+    if (isAffectedPair(oldUniversalEventMap[key], notionPageIds, morgenEventIds)) {
+      oldMap[key] = oldUniversalEventMap[key];
+    }
+  }
+  return { oldMap, newMap };
+}
+
+/**
+ * Replaces the synced pairs of some items in the sync state with their new pairs.
+ *
+ * @param {{ [key: string]: EventPair }} oldMap - The last synced pairs of the items.
+ * @param {{ [key: string]: EventPair }} newMap - The pairs of the items after this sync.
+ */
+function replaceStatePairs(oldMap: { [key: string]: EventPair }, newMap: { [key: string]: EventPair }) {
+  for (const key of Object.keys(oldMap)) {
+    delete oldUniversalEventMap[key];
+  }
+  Object.assign(oldUniversalEventMap, newMap);
+}
+
+/**
+ * Saves the sync state, its cursors and the links, reporting rather than throwing a failure.
+ */
+async function persistState() {
+  try {
+    await saveSyncState(oldUniversalEventMap, syncCursors);
+    await saveLinks(links);
+  } catch (error) {
+    console.error('Error saving sync state:', error.message);
+  }
+}
+
+/**
+ * Checks whether either side of a pair is one of the given items.
+ *
+ * @param {EventPair} eventPair - The pair to check.
+ * @param {Set<string>} notionPageIds - The IDs of the Notion pages.
+ * @param {Set<string>} morgenEventIds - The IDs of the Morgen events or series.
+ * @returns {boolean} - Returns true if the pair contains one of the items.
+ */
+function isAffectedPair(eventPair: EventPair, notionPageIds: Set<string>, morgenEventIds: Set<string>): boolean {
+  return [eventPair.notion, eventPair.morgen].some(event => event && (
+    (event.notionPageId && notionPageIds.has(event.notionPageId)) ||
+    (event.morgenEventId && matchesMorgenEventId(event.morgenEventId, morgenEventIds))
+  ));
+}
+
+/**
+ * Adds the Notion page and Morgen event IDs of both sides of a pair to the given sets.
+ */
+function addPairIds(eventPair: EventPair, notionPageIds: Set<string>, morgenEventIds: Set<string>) {
+  for (const event of [eventPair.notion, eventPair.morgen]) {
+    if (event?.notionPageId) {
+      notionPageIds.add(event.notionPageId);
+    }
+    if (event?.morgenEventId) {
+      morgenEventIds.add(event.morgenEventId);
+    }
+  }
+}
+
+/**
+ * Checks whether a Morgen event ID is one of the given IDs, or an occurrence of one of the given series.
+ *
+ * @param {string} morgenEventId - The ID of the event, as returned by resolveRecurringEvents.
+ * @param {Set<string>} morgenEventIds - The IDs of the Morgen events or series.
+ * @returns {boolean} - Returns true if the event is one of the given items.
+ */
+function matchesMorgenEventId(morgenEventId: string, morgenEventIds: Set<string>): boolean {
+  return morgenEventIds.has(morgenEventId) || morgenEventIds.has(getEventReference(morgenEventId).id);
+}
+
+/**
+ * Returns the date range that is synchronized: from the configured number of days before the start of today
+ * to the configured number of days after it, in the configured time zone.
+ *
+ * @returns {{ from: DateTime, to: DateTime }} - The start and end of the sync window.
+ */
+function getSyncWindow(): { from: DateTime, to: DateTime } {
+  const today = DateTime.now().setZone(syncConfig.sync.timeZone).startOf("day");
+  return {
+    from: today.minus({ days: syncConfig.sync.lookBehindDays }),
+    to: today.plus({ days: syncConfig.sync.lookAheadDays }),
+  };
+}
+
+/**
+ * Fetches the tasks and events in the sync window from both platforms and combines them into an event map.
+ *
+ * @returns {Promise<{ [key: string]: EventPair }>} - The current map of events.
  */
-async function main() {
-  const rangeDays = 3;
-  const yesterday = DateTime.now().setZone("America/Chicago").minus({ days: 1 }).startOf("day");
-  const latestDate = yesterday.plus({ days: rangeDays });
+async function fetchEventMap(): Promise<{ [key: string]: EventPair }> {
+  const { from, to } = getSyncWindow();
 
-  const notionTasks = await getTasksFromNotionDatabase(yesterday, latestDate);
-  const morgenEvents = await getEventsFromMorgenAPI(yesterday, latestDate);
+  const notionTasks = await getTasksFromNotionDatabase(from, to);
+  const morgenEvents = await getEventsFromMorgenAPI(from, to);
   const notionUniversalTasks = notionTasks.map(convertNotionToUniversal);
   const morgenUniversalEvents = morgenEvents.map(convertMorgenToUniversal);
+  recoverLinks(notionUniversalTasks, morgenUniversalEvents);
+
+  const eventMap: { [key: string]: EventPair } = {};
+  processAndCombineEvents(notionUniversalTasks, morgenUniversalEvents, eventMap);
+  return eventMap;
+}
+
+// Link management functions
+/**
+ * Completes the links of the fetched Morgen events.
+ * An event without a stored link is linked to the Notion page whose Morgen Event ID property names it,
+ * and links found only in a description tag are added to the link store.
+ *
+ * @param {UniversalTaskEvent[]} notionTasks - The fetched Notion tasks.
+ * @param {UniversalTaskEvent[]} morgenEvents - The fetched Morgen events; their Notion page IDs are filled in.
+ */
+function recoverLinks(notionTasks: UniversalTaskEvent[], morgenEvents: UniversalTaskEvent[]) {
+  const pageIdsByEventId: { [morgenEventId: string]: string } = {};
+  for (const task of notionTasks) {
+    if (task.morgenEventId) {
+      pageIdsByEventId[task.morgenEventId] = task.notionPageId;
+    }
+  }
+
+  for (const event of morgenEvents) {
+    if (!event.notionPageId && pageIdsByEventId[event.morgenEventId]) {
+      event.notionPageId = pageIdsByEventId[event.morgenEventId];
+    }
+    if (event.notionPageId && !links[event.morgenEventId]) {
+      links[event.morgenEventId] = event.notionPageId;
+    }
+  }
+}
+
+/**
+ * Lists the tasks and events in the sync window, split into linked pairs and items that exist on only one platform.
+ *
+ * @returns {Promise<LinkStatus>} - The linked pairs and the unlinked Notion tasks and Morgen events.
+ */
+export async function getLinkStatus(): Promise<LinkStatus> {
+  const eventMap = await fetchEventMap();
+  const status: LinkStatus = { linked: [], notionOnly: [], morgenOnly: [] };
+
+  for (const key in eventMap) {
+    const eventPair = eventMap[key];
+    if (eventPair.notion && eventPair.morgen) {
+      status.linked.push(eventPair);
+    } else if (eventPair.notion) {
+      status.notionOnly.push(eventPair.notion);
+    } else if (eventPair.morgen) {
+      status.morgenOnly.push(eventPair.morgen);
+    }
+  }
+  return status;
+}
+
+/**
+ * Links a Notion page to a Morgen event by hand.
+ * The Morgen event ID is written to the Notion page and the page ID tag to the Morgen event,
+ * and the pair is recorded in the sync state so the next cycle treats both sides as one item.
+ *
+ * @param {string} notionPageId - The ID of the Notion page to link.
+ * @param {string} morgenEventId - The ID of the Morgen event to link.
+ */
+export async function linkPair(notionPageId: string, morgenEventId: string) {
+  const eventMap = await fetchEventMap();
+  const pairs = Object.values(eventMap);
+  const notionTask = pairs.find(pair => pair.notion?.notionPageId === notionPageId)?.notion;
+  const morgenEvent = pairs.find(pair => pair.morgen?.morgenEventId === morgenEventId)?.morgen;
+
+  if (!notionTask) {
+    throw new Error(`Notion page ${notionPageId} was not found in the sync window`);
+  }
+  if (!morgenEvent) {
+    throw new Error(`Morgen event ${morgenEventId} was not found in the sync window`);
+  }
+  if (notionTask.morgenEventId || morgenEvent.notionPageId) {
+    throw new Error('Both items must be unlinked first; run "unlink" on the existing pair');
+  }
 
-  const newUniversalEventMap: { [key: string]: EventPair } = {};
+  currentPlan = createSyncPlan(dryRun);
+  await updateNotionPageWithMorgenEventId(notionPageId, morgenEventId);
+  await updateMorgenEventWithNotionPageId(notionPageId, morgenEvent);
+  throwIfActionsFailed(currentPlan);
 
-  processAndCombineEvents(notionUniversalTasks, morgenUniversalEvents, newUniversalEventMap);
-  await synchronizeEvents(oldUniversalEventMap, newUniversalEventMap);
+  if (!dryRun) {
+    const eventPair: EventPair = {
+      notion: { ...notionTask, morgenEventId },
+      morgen: { ...morgenEvent, notionPageId },
+    };
+    delete oldUniversalEventMap[generateEventKey(notionTask)];
+    delete oldUniversalEventMap[generateEventKey(morgenEvent)];
+    oldUniversalEventMap[generateEventPairKey(eventPair)] = eventPair;
+    await saveSyncState(oldUniversalEventMap, syncCursors);
+    await saveLinks(links);
+  }
+}
+
+/**
+ * Removes the link between a Notion page and a Morgen event.
+ * Both sides are kept, and they are recorded in the sync state as separate known items,
+ * so the next cycle neither deletes nor duplicates them.
+ *
+ * @param {string} id - The ID of either the Notion page or the Morgen event of the pair.
+ */
+export async function unlinkPair(id: string) {
+  const eventMap = await fetchEventMap();
+  const eventPair = Object.values(eventMap).find(pair =>
+    pair.notion && pair.morgen && (pair.notion.notionPageId === id || pair.morgen.morgenEventId === id));
+
+  if (!eventPair) {
+    throw new Error(`No linked pair with ID ${id} was found in the sync window`);
+  }
+
+  currentPlan = createSyncPlan(dryRun);
+  await updateNotionPageWithMorgenEventId(eventPair.notion.notionPageId, '');
+  await clearMorgenEventNotionPageId(eventPair.morgen);
+  throwIfActionsFailed(currentPlan);
+
+  if (!dryRun) {
+    const notionTask: UniversalTaskEvent = { ...eventPair.notion, morgenEventId: null };
+    const morgenEvent: UniversalTaskEvent = { ...eventPair.morgen, notionPageId: null };
+    delete oldUniversalEventMap[generateEventPairKey(eventPair)];
+    oldUniversalEventMap[generateEventKey(notionTask)] = { notion: notionTask };
+    oldUniversalEventMap[generateEventKey(morgenEvent)] = { morgen: morgenEvent };
+    await saveSyncState(oldUniversalEventMap, syncCursors);
+    await saveLinks(links);
+  }
+}
+
+// Preflight functions
+/**
+ * Checks the environment, the config, the Notion database schema and the Morgen calendars before a sync starts.
+ * The APIs are only contacted when the environment is complete; a request that fails is reported as a problem
+ * instead of being thrown.
+ *
+ * @returns {Promise<PreflightProblem[]>} - Every problem found; empty if the sync can start.
+ */
+export async function runPreflight(): Promise<PreflightProblem[]> {
+  const problems = [...checkEnvironment(), ...checkConfig(syncConfig)];
+  if (problems.some(problem => problem.source === "environment")) {
+    return problems;
+  }
+
+  try {
+    const database: any = await callApi("notion", () => notion.databases.retrieve({ database_id: databaseId }), { idempotent: true });
+    problems.push(...checkDatabaseSchema(database.properties, syncConfig));
+  } catch (error) {
+    problems.push(describeRequestError(error));
+  }
+
+  const expectedCalendars: ExpectedCalendar[] = [{ ...defaultCalendar, setting: "MORGEN_ACCOUNT_ID and MORGEN_CALENDAR_ID" }];
+  for (const area of Object.keys(syncConfig.morgen.calendars)) {
+    expectedCalendars.push({ ...syncConfig.morgen.calendars[area], setting: `morgen.calendars.${area}` });
+  }
+  if (syncConfig.status.enabled && syncConfig.status.doneCalendarId) {
+    expectedCalendars.push({ ...getDoneCalendar(), setting: "status.doneCalendarId" });
+  }
+  try {
+    problems.push(...checkMorgenCalendars(await morgenClient.listCalendars(), expectedCalendars));
+  } catch (error) {
+    problems.push(describeRequestError(error));
+  }
 
-  oldUniversalEventMap = newUniversalEventMap;
+  return problems;
+}
+
+/**
+ * Adds the properties and Area options the sync needs to the Notion database, in a single update.
+ * Nothing is added twice: the database is inspected first, so running the setup again changes nothing.
+ * In dry-run mode the plan is returned without updating the database.
+ *
+ * @returns {Promise<DatabaseSetupPlan>} - The changes made (or planned) and the steps left to the user.
+ */
+export async function setupDatabase(): Promise<DatabaseSetupPlan> {
+  let database: any;
+  try {
+    database = await callApi("notion", () => notion.databases.retrieve({ database_id: databaseId }), { idempotent: true });
+  } catch (error) {
+    throw new Error(describeRequestError(error).message);
+  }
+
+  const plan = planDatabaseSetup(database.properties, syncConfig, dryRun);
+  if (dryRun || !plan.changes.length) {
+    return plan;
+  }
+
+  try {
+    await callApi("notion", () => notion.databases.update({
+      database_id: databaseId,
+      properties: buildDatabaseUpdate(plan, database.properties),
+    }), { idempotent: true });
+    console.log(`Added ${plan.changes.length} item(s) to the Notion database.`);
+  } catch (error) {
+    console.error('Error updating the Notion database:', error.message);
+    plan.error = error.message;
+  }
+  return plan;
+}
+
+// Backfill functions
+/**
+ * Backfills a date range outside the sync window: every unlinked item of the source platform is linked to
+ * the item on the other platform that matches it, or else created there. The range is walked in pages of
+ * the configured number of days, so large ranges don't need huge listings; requests are rate-limited like
+ * those of a sync cycle. After every page the links and the progress are saved, and a page with failed
+ * actions stops the backfill, so running it again with the same range and direction resumes at that page.
+ * Items that were already linked are skipped, which makes going over a page twice harmless.
+ * The sync state is left alone; backfilled pairs inside the sync window are picked up as linked by the next cycle.
+ *
+ * @param {BackfillDirection} direction - The platform items are read from and the one they are created on.
+ * @param {string} from - The first day of the range, as an ISO date in the configured time zone.
+ * @param {string} to - The last day of the range, as an ISO date.
+ * @returns {Promise<BackfillReport>} - What was linked and created over all runs of this backfill.
+ */
+export async function backfill(direction: BackfillDirection, from: string, to: string): Promise<BackfillReport> {
+  const zone = syncConfig.sync.timeZone;
+  const start = DateTime.fromISO(from, { zone }).startOf("day");
+  const end = DateTime.fromISO(to, { zone }).startOf("day").plus({ days: 1 });
+  if (!start.isValid || !end.isValid || end <= start) {
+    throw new Error(`Invalid date range from "${from}" to "${to}"; expected two ISO dates in order`);
+  }
+  const firstDay = start.toISODate()!;
+  const lastDay = end.minus({ days: 1 }).toISODate()!;
+
+  let report = dryRun ? null : await loadBackfillProgress(direction, firstDay, lastDay);
+  if (report) {
+    console.log(`Resuming the backfill at ${report.nextPageStart}`);
+  } else {
+    report = createBackfillReport(direction, firstDay, lastDay, dryRun);
+  }
+  report.failed = [];
+  currentPlan = createSyncPlan(dryRun);
+
+  if (report.unlinked.length) {
+    await linkBackfilledItems(report);
+    report.failed = getFailedActions(currentPlan);
+    if (report.failed.length) {
+      await saveLinks(links);
+      await saveBackfillProgress(report);
+      console.error(`Could not link ${report.unlinked.length} item(s) created by the last run; not resuming the backfill.`);
+      return report;
+    }
+  }
+
+  let pageStart = DateTime.fromISO(report.nextPageStart, { zone });
+  while (pageStart < end) {
+    const pageEnd = DateTime.min(pageStart.plus({ days: syncConfig.backfill.pageDays }), end);
+    console.log(`Backfilling ${pageStart.toISODate()} to ${pageEnd.minus({ days: 1 }).toISODate()}`);
+    const page = await backfillPage(direction, pageStart, pageEnd, report);
+
+    // a failed page is backfilled again, so what it found is only counted once it is finished
+    report.failed = getFailedActions(currentPlan);
+    if (!report.failed.length) {
+      report.alreadyLinked += page.alreadyLinked;
+      report.matches.push(...page.matches);
+      pageStart = pageEnd;
+      report.nextPageStart = pageStart.toISODate()!;
+    }
+    if (!dryRun) {
+      await saveLinks(links);
+      await saveBackfillProgress(report);
+    }
+    if (report.failed.length) {
+      console.error(`Stopping the backfill at ${report.nextPageStart} after ${report.failed.length} failed action(s).`);
+      return report;
+    }
+  }
+
+  report.complete = true;
+  if (!dryRun) {
+    await clearBackfillProgress();
+  }
+  return report;
+}
+
+/**
+ * Links the items a previous run of the backfill created but could not link, so they are not created again.
+ * The items that still could not be linked stay in the report.
+ *
+ * @param {BackfillReport} report - The report of the resumed backfill.
+ */
+async function linkBackfilledItems(report: BackfillReport) {
+  const unlinked: BackfillItem[] = [];
+  for (const item of report.unlinked) {
+    const action = await updateNotionPageWithMorgenEventId(item.notionPageId, item.morgenEventId);
+    if (action.error) {
+      unlinked.push(item);
+    } else {
+      links[item.morgenEventId!] = item.notionPageId!;
+    }
+  }
+  report.unlinked = unlinked;
+}
+
+/**
+ * Backfills the items dated in one page of a backfill range.
+ * Unlinked items on both sides are matched first; confident matches are linked, and the items of ambiguous ones
+ * are left for confirmation unless unmatched items may be created. The remaining unlinked items of the source
+ * platform are created on the other one.
+ * Linked and created items are added to the report right away, since they are not linked or created again
+ * when a failed page is retried. The items found already linked and the possible matches are returned instead.
+ *
+ * @param {BackfillDirection} direction - The platform items are read from and the one they are created on.
+ * @param {DateTime} from - The start of the page.
+ * @param {DateTime} to - The end of the page, exclusive.
+ * @param {BackfillReport} report - The report to add the linked and created items to.
+ * @returns {Promise<Pick<BackfillReport, "alreadyLinked" | "matches">>} - The number of items found already linked
+ * and the possible matches of the page.
+ */
+async function backfillPage(direction: BackfillDirection, from: DateTime, to: DateTime, report: BackfillReport):
+  Promise<Pick<BackfillReport, "alreadyLinked" | "matches">> {
+  const page: Pick<BackfillReport, "alreadyLinked" | "matches"> = { alreadyLinked: 0, matches: [] };
+  // items are only taken from the page of their start, so events spanning pages are handled once
+  const isInPage = (event: UniversalTaskEvent) => {
+    const date = DateTime.fromISO(event.date, { zone: syncConfig.sync.timeZone });
+    return date >= from && date < to;
+  };
+  const notionTasks = (await getTasksFromNotionDatabase(from, to)).map(convertNotionToUniversal).filter(isInPage);
+  const morgenEvents = (await getEventsFromMorgenAPI(from, to)).map(convertMorgenToUniversal).filter(isInPage);
+  recoverLinks(notionTasks, morgenEvents);
+
+  const unlinkedTasks = notionTasks.filter(task => !task.morgenEventId);
+  const unlinkedEvents = morgenEvents.filter(event => !event.notionPageId);
+  const sources = direction === "notion-to-morgen" ? unlinkedTasks : unlinkedEvents;
+  // items linked or created by an earlier attempt at this page are already in the report
+  const reported = new Set([...report.created, ...report.linked].map(item => direction === "notion-to-morgen" ? item.notionPageId : item.morgenEventId));
+  page.alreadyLinked = (direction === "notion-to-morgen" ? notionTasks : morgenEvents)
+    .filter(item => !sources.includes(item) && !reported.has(direction === "notion-to-morgen" ? item.notionPageId : item.morgenEventId)).length;
+
+  const handled = new Set<UniversalTaskEvent>();
+  if (syncConfig.matching.enabled && unlinkedTasks.length && unlinkedEvents.length) {
+    const { confident, ambiguous } = findMatches(unlinkedTasks, unlinkedEvents, syncConfig.matching);
+    for (const match of confident) {
+      const failuresBefore = getFailedActions(currentPlan).length;
+      await updateNotionPageWithMorgenEventId(match.notion.notionPageId, match.morgen.morgenEventId);
+      await updateMorgenEventWithNotionPageId(match.notion.notionPageId, match.morgen);
+      handled.add(match.notion);
+      handled.add(match.morgen);
+      if (getFailedActions(currentPlan).length === failuresBefore) {
+        report.linked.push({
+          title: match.notion.title,
+          date: match.notion.date,
+          notionPageId: match.notion.notionPageId,
+          morgenEventId: match.morgen.morgenEventId,
+        });
+      }
+    }
+
+    if (!createUnmatched) {
+      for (const match of ambiguous) {
+        page.matches.push({
+          notionPageId: match.notion.notionPageId,
+          notionTitle: match.notion.title,
+          morgenEventId: match.morgen.morgenEventId,
+          morgenTitle: match.morgen.title,
+          score: Math.round(match.score * 100) / 100,
+        });
+        handled.add(match.notion);
+        handled.add(match.morgen);
+      }
+    }
+  }
+
+  for (const source of sources) {
+    if (handled.has(source)) {
+      continue;
+    }
+    const failuresBefore = getFailedActions(currentPlan).length;
+    // the created pairs are not part of the sync state, so they are collected in a map of their own
+    const action = direction === "notion-to-morgen"
+      ? await createMorgenEventFromTask(source, {})
+      : await createNotionTaskFromEvent({ morgen: source }, {});
+    if (action && !action.error) {
+      const item: BackfillItem = {
+        title: source.title,
+        date: source.date,
+        notionPageId: source.notionPageId,
+        morgenEventId: source.morgenEventId,
+      };
+      report.created.push(item);
+      if (!dryRun && getFailedActions(currentPlan).length > failuresBefore) {
+        report.unlinked.push(item);
+      }
+    }
+  }
+  return page;
+}
+
+/**
+ * Throws an error listing the failed actions of a plan, if there are any.
+ *
+ * @param {SyncPlan} plan - The plan to check.
+ */
+function throwIfActionsFailed(plan: SyncPlan) {
+  const failedActions = getFailedActions(plan);
+  if (failedActions.length) {
+    throw new Error(failedActions.map(action => `${action.type} ${action.target} ${action.id}: ${action.error}`).join('\n'));
+  }
 }
 
 /**
@@ -183,15 +883,21 @@ function processAndCombineEvents(notionEvents: UniversalTaskEvent[], morgenEvent
  * Synchronizes events between Notion and Morgen based on the new and old event maps.
  * This function handles various cases such as new event creation, updates, and deletions.
  * It ensures that both Notion and Morgen have the latest and consistent event information.
+ * Every action taken is recorded in the returned plan; in dry-run mode the actions are only recorded.
  *
  * @param {{ [key: string]: EventPair }} oldMap - The previous map of events, representing the last known state.
  * @param {{ [key: string]: EventPair }} newMap - The current map of events, representing the latest state.
+ * @returns {Promise<SyncPlan>} - The plan of all creates, updates and deletes of this cycle.
  */
-async function synchronizeEvents(oldMap: { [key: string]: EventPair },newMap: { [key: string]: EventPair }) {
+async function synchronizeEvents(oldMap: { [key: string]: EventPair },newMap: { [key: string]: EventPair }): Promise<SyncPlan> {
+  currentPlan = createSyncPlan(dryRun);
+  morgenLookupEvents = null;
+  await matchUnlinkedItems(oldMap, newMap);
 
-  for (const key in newMap) {
+  for (const key of Object.keys(newMap)) {
     const newEventPair = newMap[key];
     const oldEventPair = oldMap[key];
+    const failuresBefore = getFailedActions(currentPlan).length;
 
     // case 1: event exist on both platforms and has not changed
     if (oldEventPair && eventPairsAreEqual(oldEventPair, newEventPair)) {
@@ -200,7 +906,7 @@ async function synchronizeEvents(oldMap: { [key: string]: EventPair },newMap: {
 
     // case 2: event has been updated on one of the platforms
     if (oldEventPair && !eventPairsAreEqual(oldEventPair, newEventPair)) {
-      await resolveAndUpdateDiscrepancies(newEventPair);
+      await resolveAndUpdateDiscrepancies(newEventPair, oldEventPair);
     }
     
     // case 3: event does not exist on old map (event created)
@@ -214,46 +920,411 @@ async function synchronizeEvents(oldMap: { [key: string]: EventPair },newMap: {
       }
     }
 
-    // case 4: deletions
-    for (const key in oldMap) {
-      const oldEventPair = oldMap[key];
-      const newEventPair = newMap[key];
-    
-      // if newEventPair does not exist, task/event does not exist on either platform (don't need to do anything)
-      if (newEventPair) {
-        // if the event/task exists in the new map but only on one platform, delete from other platform
-        if (newEventPair.notion && !newEventPair.morgen) {
-          if (oldEventPair.morgen) {
-            await deleteNotionTask(newEventPair.notion);
-          }
+    restoreBaseIfFailed(key, failuresBefore, oldMap, newMap);
+  }
+
+  // case 4: deletions and moves out of the sync window
+  const pendingDeletions: PendingDeletion[] = [];
+  for (const key in oldMap) {
+    const oldEventPair = oldMap[key];
+    const newEventPair = newMap[key];
+
+    const failuresBefore = getFailedActions(currentPlan).length;
+
+    // if newEventPair does not exist, task/event does not exist on either platform (don't need to do anything)
+    if (newEventPair) {
+      // if the event/task exists in the new map but only on one platform, check whether the other side
+      // was deleted or only moved outside of the sync window
+      if (newEventPair.notion && !newEventPair.morgen) {
+        if (oldEventPair.morgen && await resolveMissingMorgenEvent(newEventPair, oldEventPair)) {
+          pendingDeletions.push({ key, target: "notion", event: newEventPair.notion });
         }
-        if (newEventPair.morgen && !newEventPair.notion) {
-          if (oldEventPair.notion) {
-            await deleteMorgenEvent(newEventPair.morgen);
-          }
+      }
+      if (newEventPair.morgen && !newEventPair.notion) {
+        if (oldEventPair.notion && await resolveMissingNotionTask(newEventPair, oldEventPair)) {
+          pendingDeletions.push({ key, target: "morgen", event: newEventPair.morgen });
         }
       }
+      restoreBaseIfFailed(key, failuresBefore, oldMap, newMap);
+    }
+  }
+  await applyDeletions(pendingDeletions, oldMap, newMap);
+
+  if (!syncConfig.links.descriptionTag) {
+    await removeLinkTags(newMap);
+  }
+
+  return currentPlan;
+}
+
+/**
+ * Pairs new unlinked Notion tasks with new unlinked Morgen events that look like the same item,
+ * so they are linked instead of being created a second time on the other platform.
+ * Confident matches are linked and left as they are, like pairs that were already linked on the first run.
+ * The items of ambiguous matches are listed in the plan and left out of this cycle, unless unmatched items
+ * may be created.
+ *
+ * @param {{ [key: string]: EventPair }} oldMap - The previous map of events.
+ * @param {{ [key: string]: EventPair }} newMap - The current map of events; matched items are combined into pairs.
+ */
+async function matchUnlinkedItems(oldMap: { [key: string]: EventPair }, newMap: { [key: string]: EventPair }) {
+  if (!syncConfig.matching.enabled) {
+    return;
+  }
+
+  const notionTasks: UniversalTaskEvent[] = [];
+  const morgenEvents: UniversalTaskEvent[] = [];
+  for (const key of Object.keys(newMap)) {
+    const eventPair = newMap[key];
+    if (oldMap[key]) {
+      continue;
+    }
+    if (eventPair.notion && !eventPair.morgen && !eventPair.notion.morgenEventId) {
+      notionTasks.push(eventPair.notion);
+    } else if (eventPair.morgen && !eventPair.notion && !eventPair.morgen.notionPageId) {
+      morgenEvents.push(eventPair.morgen);
+    }
+  }
+  if (!notionTasks.length || !morgenEvents.length) {
+    return;
+  }
+
+  const { confident, ambiguous } = findMatches(notionTasks, morgenEvents, syncConfig.matching);
+  for (const match of confident) {
+    console.log(`Linking "${match.notion.title}" to the matching Morgen event "${match.morgen.title}" (score ${match.score.toFixed(2)})`);
+    const failuresBefore = getFailedActions(currentPlan).length;
+    await updateNotionPageWithMorgenEventId(match.notion.notionPageId, match.morgen.morgenEventId);
+    await updateMorgenEventWithNotionPageId(match.notion.notionPageId, match.morgen);
+
+    // if linking failed, both items are left out of this cycle and matched again next cycle
+    delete newMap[generateEventKey(match.notion)];
+    delete newMap[generateEventKey(match.morgen)];
+    if (getFailedActions(currentPlan).length === failuresBefore) {
+      const eventPair: EventPair = {
+        notion: { ...match.notion, morgenEventId: match.morgen.morgenEventId },
+        morgen: { ...match.morgen, notionPageId: match.notion.notionPageId },
+      };
+      newMap[generateEventPairKey(eventPair)] = eventPair;
+    }
+  }
+
+  if (createUnmatched) {
+    return;
+  }
+  for (const match of ambiguous) {
+    currentPlan.matches.push({
+      notionPageId: match.notion.notionPageId,
+      notionTitle: match.notion.title,
+      morgenEventId: match.morgen.morgenEventId,
+      morgenTitle: match.morgen.title,
+      score: Math.round(match.score * 100) / 100,
+    });
+    delete newMap[generateEventKey(match.notion)];
+    delete newMap[generateEventKey(match.morgen)];
+  }
+  if (ambiguous.length) {
+    console.warn(`Holding ${ambiguous.length} possible matches for confirmation.`);
+  }
+}
+
+/**
+ * Removes the page ID tags from the descriptions of Morgen events whose link is in the link store.
+ * This migrates events that were linked by a description tag; a failed removal is tried again next cycle.
+ *
+ * @param {{ [key: string]: EventPair }} newMap - The current map of events.
+ */
+async function removeLinkTags(newMap: { [key: string]: EventPair }) {
+  for (const key of Object.keys(newMap)) {
+    const morgenEvent = newMap[key].morgen;
+    if (!morgenEvent?.hasLinkTag || links[morgenEvent.morgenEventId] !== morgenEvent.notionPageId) {
+      continue;
     }
+
+    await removeMorgenEventLinkTag(morgenEvent);
+  }
+}
+
+/**
+ * Handles a pair whose Morgen event is no longer in the sync window.
+ * The event is looked up directly by its ID: if it still exists it was moved, and the move is
+ * merged into the Notion task like any other edit; only if it is gone should the Notion task be archived.
+ * If the lookup fails, nothing is done and the pair is checked again next cycle.
+ *
+ * @param {EventPair} eventPair - The current pair, which only has a Notion side.
+ * @param {EventPair} baseEventPair - The pair as it was after the last successful sync.
+ * @returns {Promise<boolean>} - Returns true if the Morgen event was deleted and the Notion task should be archived.
+ */
+async function resolveMissingMorgenEvent(eventPair: EventPair, baseEventPair: EventPair): Promise<boolean> {
+  let morgenEvent: UniversalTaskEvent | null;
+  try {
+    morgenEvent = await findMorgenEventById(baseEventPair.morgen.morgenEventId);
+  } catch (error) {
+    console.error(`Could not look up Morgen event of "${eventPair.notion.title}", skipping:`, error.response?.data || error.message);
+    return false;
+  }
+
+  if (!morgenEvent) {
+    return true;
   }
+
+  console.log(`Morgen event of "${eventPair.notion.title}" moved outside of the sync window`);
+  eventPair.morgen = morgenEvent;
+  await resolveAndUpdateDiscrepancies(eventPair, baseEventPair);
+  return false;
+}
+
+/**
+ * Handles a pair whose Notion task is no longer in the sync window.
+ * The page is retrieved directly by its ID: if it still exists and is not archived it was moved, and
+ * the move is merged into the Morgen event like any other edit; only if it is gone should the Morgen event be deleted.
+ * If the lookup fails, nothing is done and the pair is checked again next cycle.
+ *
+ * @param {EventPair} eventPair - The current pair, which only has a Morgen side.
+ * @param {EventPair} baseEventPair - The pair as it was after the last successful sync.
+ * @returns {Promise<boolean>} - Returns true if the Notion task was deleted and the Morgen event should be deleted.
+ */
+async function resolveMissingNotionTask(eventPair: EventPair, baseEventPair: EventPair): Promise<boolean> {
+  let notionTask: UniversalTaskEvent | null;
+  try {
+    notionTask = await findNotionTaskById(baseEventPair.notion.notionPageId);
+  } catch (error) {
+    console.error(`Could not look up Notion task of "${eventPair.morgen.title}", skipping:`, error.message);
+    return false;
+  }
+
+  if (!notionTask) {
+    return true;
+  }
+
+  console.log(`Notion task of "${eventPair.morgen.title}" moved outside of the sync window`);
+  eventPair.notion = notionTask;
+  await resolveAndUpdateDiscrepancies(eventPair, baseEventPair);
+  return false;
+}
+
+/**
+ * Carries out the deletions found in a sync cycle, unless there are so many that they look like
+ * the result of a bad API response rather than real deletions. In that case the deletions are held:
+ * they are reported in the plan, and the last synced pairs are kept so the next cycle checks them again.
+ *
+ * @param {PendingDeletion[]} deletions - The deletions found in this cycle.
+ * @param {{ [key: string]: EventPair }} oldMap - The previous map of events, representing the last known state.
+ * @param {{ [key: string]: EventPair }} newMap - The current map of events, representing the latest state.
+ */
+async function applyDeletions(deletions: PendingDeletion[], oldMap: { [key: string]: EventPair }, newMap: { [key: string]: EventPair }) {
+  // incremental and webhook cycles only pass the changed pairs, so the share is taken of the whole saved state
+  const linkedCount = Object.values(oldUniversalEventMap).filter(eventPair => eventPair.notion && eventPair.morgen).length;
+  const reason = getMassDeletionReason(deletions.length, linkedCount);
+
+  if (reason && !allowMassDeletion) {
+    console.warn(`Holding ${deletions.length} deletions: ${reason}`);
+    currentPlan.heldReason = reason;
+    for (const deletion of deletions) {
+      currentPlan.held.push({
+        type: "delete",
+        target: deletion.target,
+        id: deletion.target === "notion" ? deletion.event.notionPageId : deletion.event.morgenEventId,
+        title: deletion.event.title,
+        changes: [],
+      });
+      newMap[deletion.key] = oldMap[deletion.key];
+    }
+    return;
+  }
+
+  for (const deletion of deletions) {
+    const failuresBefore = getFailedActions(currentPlan).length;
+    if (deletion.target === "notion") {
+      await deleteNotionTask(deletion.event);
+    } else {
+      await deleteMorgenEvent(deletion.event);
+    }
+    restoreBaseIfFailed(deletion.key, failuresBefore, oldMap, newMap);
+  }
+}
+
+/**
+ * Keeps the last synced state of a pair if any action on it failed in this cycle,
+ * so the next cycle sees the same difference and tries again instead of treating
+ * the partial result as the new baseline.
+ *
+ * @param {string} key - The key of the pair.
+ * @param {number} failuresBefore - The number of failed actions before the pair was handled.
+ * @param {{ [key: string]: EventPair }} oldMap - The previous map of events, representing the last known state.
+ * @param {{ [key: string]: EventPair }} newMap - The current map of events, representing the latest state.
+ */
+function restoreBaseIfFailed(key: string, failuresBefore: number, oldMap: { [key: string]: EventPair }, newMap: { [key: string]: EventPair }) {
+  if (getFailedActions(currentPlan).length === failuresBefore) {
+    return;
+  }
+
+  if (oldMap[key]) {
+    newMap[key] = oldMap[key];
+  } else {
+    delete newMap[key];
+  }
+}
+
+/**
+ * Checks a number of deletions against the configured mass-deletion limits.
+ *
+ * @param {number} deletionCount - The number of items that would be deleted.
+ * @param {number} linkedCount - The number of linked pairs before this cycle.
+ * @returns {string | null} - A description of the exceeded limit, or null if the deletions are within the limits.
+ */
+function getMassDeletionReason(deletionCount: number, linkedCount: number): string | null {
+  const { maxDeletions, maxDeletionPercent } = syncConfig.safety;
+
+  if (deletionCount > maxDeletions) {
+    return `${deletionCount} deletions exceed the limit of ${maxDeletions} per cycle`;
+  }
+
+  // a single deletion is always allowed, otherwise small linked sets could never lose an item
+  const percent = linkedCount ? (deletionCount / linkedCount) * 100 : 100;
+  if (deletionCount > 1 && percent > maxDeletionPercent) {
+    return `${deletionCount} of ${linkedCount} linked items (${Math.round(percent)}%) exceed the limit of ${maxDeletionPercent}%`;
+  }
+  return null;
+}
+
+/**
+ * Adds an action to the plan of the current sync cycle.
+ *
+ * @param {PlannedAction} action - The create, update or delete about to be performed.
+ * @returns {PlannedAction} - The recorded action.
+ */
+function recordAction(action: PlannedAction): PlannedAction {
+  currentPlan.actions.push(action);
+  return action;
+}
+
+/**
+ * Lists the field changes an update would make to an event.
+ *
+ * @param {UniversalTaskEvent} currentEvent - The event as it is now.
+ * @param {UniversalTaskEvent} truthEvent - The event containing the updated information.
+ * @param {MergeField[]} fields - The fields written by the update.
+ * @returns {FieldChange[]} - The changed fields.
+ */
+function diffEventFields(currentEvent: UniversalTaskEvent, truthEvent: UniversalTaskEvent, fields: MergeField[]): FieldChange[] {
+  const pick = (event: UniversalTaskEvent) => Object.fromEntries(fields.map(field => [field, event[field]]));
+  return diffFields(pick(currentEvent), pick(truthEvent), fieldsAreEqual);
 }
 
 /**
  * Resolves discrepancies and updates tasks/events across Notion and Morgen.
- * This function compares the last update timestamps for the given event pairs and
- * decides which platform (Notion or Morgen) needs updating to ensure both have the latest information.
- * It then calls the appropriate update function based on the comparison.
+ * This function merges the two sides field by field, using the previously synced pair as the base,
+ * so that edits to different fields on each platform are both kept. Fields changed on both sides
+ * are settled by the configured conflict policy. It then updates whichever platforms are out of date.
  *
  * @param {EventPair} eventPair - An object containing both the Notion and Morgen representations of an event.
+ * @param {EventPair} baseEventPair - The same pair as it was after the last successful sync.
  */
-async function resolveAndUpdateDiscrepancies(eventPair:EventPair) {
+async function resolveAndUpdateDiscrepancies(eventPair:EventPair, baseEventPair:EventPair) {
   if (eventPair.morgen) {
     if (eventPair.notion) {
-      if (eventPair.morgen.lastUpdate > eventPair.notion.lastUpdate) {
-        await updateNotionTask(eventPair.morgen, eventPair.notion)
+      const { notion, morgen, updateNotion, updateMorgen, conflicts } = mergeEventPair(eventPair, baseEventPair, syncConfig.sync.conflictPolicy, getNotionOnlyFields());
+
+      for (const conflict of conflicts) {
+        const action = conflict.resolution === "manual" ? "flagged for manual review" : `resolved in favour of ${conflict.resolution}`;
+        console.warn(`Conflict in ${conflict.field} for "${eventPair.notion.title}" (${action}):`,
+          `Base: "${conflict.base}", Notion: "${conflict.notion}", Morgen: "${conflict.morgen}"`);
+        if (conflict.resolution === "manual") {
+          currentPlan.conflicts.push({
+            notionPageId: eventPair.notion.notionPageId,
+            morgenEventId: eventPair.morgen.morgenEventId,
+            title: eventPair.notion.title,
+            field: conflict.field,
+            base: conflict.base,
+            notion: conflict.notion,
+            morgen: conflict.morgen,
+          });
+        }
+      }
+
+      const morgenTruth = { ...eventPair.morgen, notionPageId: eventPair.notion.notionPageId, ...morgen };
+      if (updateNotion) {
+        await updateNotionTask({ ...eventPair.notion, ...notion }, eventPair.notion)
+      }
+      if (updateMorgen) {
+        await updateMorgenEvent(morgenTruth, eventPair.morgen)
+      }
+
+      await synchronizeStatus(eventPair, baseEventPair, morgenTruth);
+      await synchronizeArea(eventPair, baseEventPair, morgenTruth);
+    }
+  }
+}
+
+/**
+ * Returns the fields that are only synced from Notion to Morgen.
+ * With page bodies, the Notion description holds the rendered body, which a Morgen edit cannot be written back to.
+ *
+ * @returns {MergeField[]} - The fields whose Notion value always wins.
+ */
+function getNotionOnlyFields(): MergeField[] {
+  return syncConfig.notion.pageBody ? ["description"] : [];
+}
+
+/**
+ * Carries a status change over to the other side of a pair.
+ * A changed Notion status decides the state of the Morgen event: it is marked done (with the title prefix or by
+ * moving it to the done calendar), removed, or reopened. Otherwise, a Morgen event that was marked done,
+ * declined or reopened sets the Notion status. If both sides changed, the Notion status wins.
+ *
+ * @param {EventPair} eventPair - The current pair; its Morgen side is dropped if the event is removed.
+ * @param {EventPair} baseEventPair - The pair as it was after the last successful sync.
+ * @param {UniversalTaskEvent} morgenTruth - The Morgen event including the changes merged in this cycle.
+ */
+async function synchronizeStatus(eventPair: EventPair, baseEventPair: EventPair, morgenTruth: UniversalTaskEvent) {
+  if (!syncConfig.status.enabled) {
+    return;
+  }
+  const notionTask = eventPair.notion;
+  const morgenEvent = eventPair.morgen;
+  const doneCalendarId = syncConfig.status.doneCalendarId;
+
+  if (notionTask.status !== baseEventPair.notion?.status) {
+    const statusAction = getStatusAction(syncConfig.status, notionTask.status);
+
+    if (statusAction === "remove") {
+      const action = await deleteMorgenEvent(morgenEvent);
+      if (!dryRun && !action.error) {
+        delete eventPair.morgen;
+      }
+    } else if (statusAction === "move" && doneCalendarId) {
+      if (!isInDoneCalendar(morgenEvent)) {
+        await moveMorgenEvent(eventPair, morgenTruth, getDoneCalendar(), "done");
+      }
+    } else if (statusAction === "prefix" || statusAction === "move") {
+      if (morgenEvent.status !== "done") {
+        await updateMorgenEventStatus(morgenEvent, morgenTruth, "done");
+      }
+    } else if (morgenEvent.status === "done") {
+      if (isInDoneCalendar(morgenEvent)) {
+        await moveMorgenEvent(eventPair, morgenTruth, getCalendarForArea(notionTask.area), "open");
       } else {
-        await updateMorgenEvent(eventPair.notion, eventPair.morgen)
+        await updateMorgenEventStatus(morgenEvent, morgenTruth, "open");
       }
     }
+    return;
+  }
+
+  if (morgenEvent.status !== baseEventPair.morgen?.status) {
+    const notionStatus = syncConfig.status.morgenToNotion[morgenEvent.status as MorgenStatus];
+    const notionIsDone = getStatusAction(syncConfig.status, notionTask.status) !== "none";
+    const declinedStatus = syncConfig.status.morgenToNotion.declined;
+
+    let alreadyMatches = notionTask.status === notionStatus;
+    if (morgenEvent.status === "done") {
+      alreadyMatches = notionIsDone;
+    } else if (morgenEvent.status === "open") {
+      alreadyMatches = !notionIsDone && notionTask.status !== declinedStatus;
+    }
+
+    if (notionStatus && !alreadyMatches) {
+      await updateNotionTaskStatus(notionTask, notionStatus);
+    }
   }
 }
 
@@ -267,15 +1338,22 @@ async function resolveAndUpdateDiscrepancies(eventPair:EventPair) {
  */
 async function deleteNotionTask(notionTask:UniversalTaskEvent) {
   if (notionTask.notionPageId) {
+    const action = recordAction({ type: "delete", target: "notion", id: notionTask.notionPageId, title: notionTask.title, changes: [] });
+    if (dryRun) {
+      return action;
+    }
+
     try {
-      const response = await notion.pages.update({
+      const response = await callApi("notion", () => notion.pages.update({
         page_id: notionTask.notionPageId,
         archived: true,
-      });
+      }), { idempotent: true });
       console.log('Notion task updated succesfully. ', notionTask.title)
     } catch (error) {
       console.error('Error updating Notion task:', error)
+      action.error = error.response?.data?.message || error.message;
     }
+    return action;
   }
 }
 
@@ -287,26 +1365,22 @@ async function deleteNotionTask(notionTask:UniversalTaskEvent) {
  * @param {UniversalTaskEvent} morgenEvent - The event from Morgen that needs to be deleted.
  */
 async function deleteMorgenEvent(morgenEvent:UniversalTaskEvent) {
-  const UPDATE_MODE = "single";
-  const API_URL = `https://api.morgen.so/v3/events/delete?seriesUpdateMode=${UPDATE_MODE}`;
+  const action = recordAction({ type: "delete", target: "morgen", id: morgenEvent.morgenEventId, title: morgenEvent.title, changes: [] });
+  if (dryRun) {
+    return action;
+  }
 
   try {
-    const response = await axios.post(API_URL, {
-      accountId: process.env.MORGEN_ACCOUNT_ID,
-      calendarId: process.env.MORGEN_CALENDAR_ID,
-      id: morgenEvent.morgenEventId,
-    }, {
-      headers: {
-        "Content-Type": "application/json",
-        "accept": "application/json",
-        "Authorization": `ApiKey ${process.env.MORGEN_API_KEY}`
-      }
-    });
+    const { reference, seriesUpdateMode } = getMorgenEventReference(morgenEvent);
+    await morgenClient.deleteEvent(reference, seriesUpdateMode);
+    delete links[morgenEvent.morgenEventId];
 
     console.log('Morgen event deleted successfully:', morgenEvent.title);
   } catch (error) {
     console.error('Error deleting Morgen event:', error.response?.data || error.message);
+    action.error = error.response?.data?.message || error.message;
   }
+  return action;
 }
 
 // Comparison functions
@@ -328,7 +1402,7 @@ function eventPairsAreEqual(pair1: EventPair, pair2: EventPair): boolean {
 
 /**
  * Compares two events to find any discrepancies between them.
- * Discrepancies are checked in terms of title, description, and date (including time if present).
+ * Discrepancies are checked in terms of title, description, date (including time if present), duration, area and status.
  * The function logs any discrepancies found for debugging purposes.
  *
  * @param {UniversalTaskEvent} truthEvent - The event considered as the source of truth.
@@ -348,7 +1422,7 @@ function compareEvents(truthEvent: UniversalTaskEvent, compareEvent: UniversalTa
   // Compare descriptions
   const truthDescription = truthEvent.description.trim();
   const compareDescription = compareEvent.description.trim();
-  if (truthDescription !== compareDescription) {
+  if (!haveSameText(truthDescription, compareDescription)) {
     console.log(`Discrepancy found in description for "${truthEvent.title || compareEvent.title}":`,
       `Truth description: "${truthDescription}", Compare description: "${compareDescription}"`);
     discrepancies = true;
@@ -371,9 +1445,56 @@ function compareEvents(truthEvent: UniversalTaskEvent, compareEvent: UniversalTa
     discrepancies = true;
   }
 
+  // Compare durations
+  if (!fieldsAreEqual("duration", truthEvent.duration, compareEvent.duration)) {
+    console.log(`Discrepancy found in duration for "${truthEvent.title || compareEvent.title}":`,
+      `Truth duration: "${truthEvent.duration}", Compare duration: "${compareEvent.duration}"`);
+    discrepancies = true;
+  }
+
+  // Compare areas
+  if (truthEvent.area !== compareEvent.area) {
+    console.log(`Discrepancy found in area for "${truthEvent.title || compareEvent.title}":`,
+      `Truth area: "${truthEvent.area}", Compare area: "${compareEvent.area}"`);
+    discrepancies = true;
+  }
+
+  // Compare statuses
+  if (truthEvent.status !== compareEvent.status) {
+    console.log(`Discrepancy found in status for "${truthEvent.title || compareEvent.title}":`,
+      `Truth status: "${truthEvent.status}", Compare status: "${compareEvent.status}"`);
+    discrepancies = true;
+  }
+
   return discrepancies;
 }
 
+/**
+ * Keeps the Notion Area and the calendar of the Morgen event in line.
+ * A changed Area moves the event to the calendar mapped to the new Area; an event that turns up in another
+ * mapped calendar sets the Area of the Notion task. Events in the done calendar stay where they are.
+ *
+ * @param {EventPair} eventPair - The current pair.
+ * @param {EventPair} baseEventPair - The pair as it was after the last successful sync.
+ * @param {UniversalTaskEvent} morgenTruth - The Morgen event including the changes merged in this cycle.
+ */
+async function synchronizeArea(eventPair: EventPair, baseEventPair: EventPair, morgenTruth: UniversalTaskEvent) {
+  const notionTask = eventPair.notion;
+  const morgenEvent = eventPair.morgen;
+  if (!morgenEvent || isInDoneCalendar(morgenEvent)) {
+    return;
+  }
+
+  if (notionTask.area !== baseEventPair.notion?.area) {
+    const calendar = getCalendarForArea(notionTask.area);
+    if (!isSameCalendar(calendar, morgenEvent)) {
+      await moveMorgenEvent(eventPair, morgenTruth, calendar, morgenEvent.status as MorgenStatus);
+    }
+  } else if (morgenEvent.area && morgenEvent.area !== baseEventPair.morgen?.area && morgenEvent.area !== notionTask.area) {
+    await updateNotionTaskArea(notionTask, morgenEvent.area);
+  }
+}
+
 // Update Task/Event functions
 /**
  * Updates an event in Morgen using data from a corresponding truth event (typically from Notion).
@@ -383,77 +1504,305 @@ function compareEvents(truthEvent: UniversalTaskEvent, compareEvent: UniversalTa
  * @param {UniversalTaskEvent} morgenEvent - The Morgen event that needs to be updated.
  */
 async function updateMorgenEvent(truthEvent: UniversalTaskEvent, morgenEvent: UniversalTaskEvent) {
-  const UPDATE_MODE = "single";
-  const API_URL = "https://api.morgen.so/v3/events/update?seriesUpdateMode=" + UPDATE_MODE;
-
   const hasTime = truthEvent.date.includes('T');
-  const idPlusDescription = truthEvent.notionPageId ? `#PAGEID:${truthEvent.notionPageId}#${truthEvent.description}`: truthEvent.description;
-  
-  const requestBody = {
-      accountId: process.env.MORGEN_ACCOUNT_ID,
-      calendarId: process.env.MORGEN_CALENDAR_ID,
-      id: morgenEvent.morgenEventId,
-      title: truthEvent.title,
-      description: idPlusDescription,
-      start: formatToMorgenDateTime(truthEvent.date),
-      duration: truthEvent.duration,
-      timeZone: "utc",
-      showWithoutTime: !hasTime,
+  const { reference, seriesUpdateMode } = getMorgenEventReference(morgenEvent);
+  const request: MorgenUpdateEventRequest = {
+      ...reference,
+      title: formatMorgenTitle(syncConfig.status, { title: truthEvent.title, status: morgenEvent.status, calendarId: morgenEvent.calendarId }),
+      description: formatMorgenDescription(truthEvent.description, truthEvent.notionPageId),
   };
 
+  // the date of a series is the earliest start the sync has seen, not necessarily the series' start, so it is not written to the whole series
+  if (!morgenEvent.isSeries) {
+    request.start = formatToMorgenDateTime(truthEvent.date);
+    request.duration = truthEvent.duration;
+    request.timeZone = syncConfig.sync.timeZone;
+    request.showWithoutTime = !hasTime;
+  }
+
+  const action = recordAction({
+    type: "update",
+    target: "morgen",
+    id: morgenEvent.morgenEventId,
+    title: morgenEvent.title,
+    changes: diffEventFields(morgenEvent, truthEvent, morgenEvent.isSeries ? ["title", "description"] : ["title", "description", "date", "duration"]),
+  });
+  if (dryRun) {
+    return action;
+  }
+
   try {
-    const response = await axios.post(API_URL, requestBody, {
-      headers: {
-        "Content-Type": "application/json",
-        "accept": "application/json",
-        "Authorization": `ApiKey ${process.env.MORGEN_API_KEY}`
-      }
-    });
+    await morgenClient.updateEvent(request, seriesUpdateMode);
+    morgenEvent.hasLinkTag = syncConfig.links.descriptionTag && Boolean(truthEvent.notionPageId);
     console.log('Morgen event updated succesfully:')
   } catch (error) {
     console.log('Complete error response:', error.response || error);
+    action.error = error.response?.data?.message || error.message;
   }
+  return action;
 }
 
 /**
  * Updates a task in Notion using data from a corresponding truth event (typically from Morgen).
  * It constructs a request body with the updated information and sends a request to the Notion API.
+ * The event's duration is written as the end of the due date range (and to the duration property, if one is mapped).
  *
  * @param {UniversalTaskEvent} truthEvent - The event containing the updated information.
  * @param {UniversalTaskEvent} notionEvent - The Notion task that needs to be updated.
  */
-async function updateNotionTask(truthEvent: UniversalTaskEvent, notionEvent: UniversalTaskEvent) {
-  if (notionEvent.notionPageId) {
-    try {
-      const response = await notion.pages.update({
-        page_id: notionEvent.notionPageId,
-        properties: {
-          'Name': {
-            title: [{
-                text: {
-                    content: truthEvent.title
-                }
-            }]
-          },
-          'Description': {
-              rich_text: [{
-                  text: {
-                      content: truthEvent.description
-                  }
-              }]
-          },
-          'Due date': {
-              date: {
-                  start: truthEvent.date
-              }
-          },
+async function updateNotionTask(truthEvent: UniversalTaskEvent, notionEvent: UniversalTaskEvent) {
+  if (notionEvent.notionPageId) {
+    const action = recordAction({
+      type: "update",
+      target: "notion",
+      id: notionEvent.notionPageId,
+      title: notionEvent.title,
+      changes: diffEventFields(notionEvent, truthEvent, syncConfig.notion.pageBody ? ["title", "date", "duration"] : ["title", "description", "date", "duration"]),
+    });
+    if (dryRun) {
+      return action;
+    }
+
+    try {
+      const response = await callApi("notion", () => notion.pages.update({
+        page_id: notionEvent.notionPageId,
+        properties: {
+          ...buildDurationProperty(truthEvent.duration),
+          [propertyNames.title]: {
+            title: [{
+                text: {
+                    content: truthEvent.title
+                }
+            }]
+          },
+          // with page bodies, the description also holds the body and is not written back
+          ...(syncConfig.notion.pageBody ? {} : {
+            [propertyNames.description]: {
+                rich_text: markdownToRichText(truthEvent.description)
+            },
+          }),
+          [propertyNames.dueDate]: {
+              date: buildNotionDateRange(truthEvent.date, truthEvent.duration)
+          },
+        }
+      }), { idempotent: true });
+      console.log('Notion task updated succesfully:')
+    } catch (error) {
+      console.error('Error updating Notion task:', error)
+      action.error = error.response?.data?.message || error.message;
+    }
+    return action;
+  }
+}
+
+/**
+ * Marks a Morgen event as done or open by adding or removing the done prefix of its title.
+ *
+ * @param {UniversalTaskEvent} morgenEvent - The Morgen event to update; its status is updated once the request succeeded.
+ * @param {UniversalTaskEvent} morgenTruth - The event including the changes merged in this cycle, used for the title.
+ * @param {MorgenStatus} status - The new status of the event.
+ */
+async function updateMorgenEventStatus(morgenEvent: UniversalTaskEvent, morgenTruth: UniversalTaskEvent, status: MorgenStatus) {
+  const { reference, seriesUpdateMode } = getMorgenEventReference(morgenEvent);
+  const request: MorgenUpdateEventRequest = {
+    ...reference,
+    title: formatMorgenTitle(syncConfig.status, { title: morgenTruth.title, status, calendarId: morgenEvent.calendarId }),
+  };
+
+  const action = recordAction({
+    type: "update",
+    target: "morgen",
+    id: morgenEvent.morgenEventId,
+    title: morgenEvent.title,
+    changes: diffFields({ status: morgenEvent.status }, { status }),
+  });
+  if (dryRun) {
+    return action;
+  }
+
+  try {
+    await morgenClient.updateEvent(request, seriesUpdateMode);
+    morgenEvent.status = status;
+    console.log('Morgen event status updated succesfully:', status)
+  } catch (error) {
+    console.log('Error updating Morgen event status:', error.response?.data || error.message);
+    action.error = error.response?.data?.message || error.message;
+  }
+  return action;
+}
+
+/**
+ * Moves a Morgen event to another calendar, for example the done calendar or the calendar of a new Area.
+ * Morgen cannot move events between calendars, so the event is recreated in the new calendar,
+ * the Notion page is linked to the new event, and only then the old event is deleted.
+ * A single occurrence becomes a standalone event; a whole series is not moved, as that would lose its recurrence.
+ *
+ * @param {EventPair} eventPair - The pair of the event; its Morgen side is replaced by the new event.
+ * @param {UniversalTaskEvent} morgenTruth - The event including the changes merged in this cycle.
+ * @param {MorgenCalendar} calendar - The account and calendar to move the event to.
+ * @param {MorgenStatus} status - The status of the event after the move.
+ */
+async function moveMorgenEvent(eventPair: EventPair, morgenTruth: UniversalTaskEvent, calendar: MorgenCalendar, status: MorgenStatus) {
+  const morgenEvent = eventPair.morgen;
+  if (morgenEvent.isSeries) {
+    console.warn(`Not moving the recurring series "${morgenEvent.title}" to calendar ${calendar.calendarId}; move it in Morgen instead`);
+    return;
+  }
+  const notionPageId = eventPair.notion.notionPageId;
+  const movedEvent: UniversalTaskEvent = {
+    ...morgenTruth,
+    ...calendar,
+    notionPageId,
+    status,
+    area: getAreaForCalendar(calendar),
+    isSeries: false,
+    hasLinkTag: syncConfig.links.descriptionTag,
+  };
+  const hasTime = movedEvent.date.includes('T');
+
+  const request: MorgenCreateEventRequest = {
+    ...calendar,
+    title: formatMorgenTitle(syncConfig.status, movedEvent),
+    description: formatMorgenDescription(movedEvent.description, notionPageId),
+    start: formatToMorgenDateTime(movedEvent.date),
+    duration: movedEvent.duration,
+    showWithoutTime: !hasTime,
+    timeZone: syncConfig.sync.timeZone
+  };
+
+  const action = recordAction({
+    type: "update",
+    target: "morgen",
+    id: morgenEvent.morgenEventId,
+    title: morgenEvent.title,
+    changes: diffFields({ calendarId: morgenEvent.calendarId, status: morgenEvent.status }, { calendarId: calendar.calendarId, status }),
+  });
+  if (dryRun) {
+    return action;
+  }
+
+  try {
+    const createdEvent = await morgenClient.createEvent(request);
+
+    const linkAction = await updateNotionPageWithMorgenEventId(notionPageId, createdEvent.id);
+    if (linkAction.error) {
+      await morgenClient.deleteEvent({ id: createdEvent.id, ...calendar });
+      throw new Error(`could not link the moved event: ${linkAction.error}`);
+    }
+
+    links[createdEvent.id] = notionPageId;
+    const { reference, seriesUpdateMode } = getMorgenEventReference(morgenEvent);
+    try {
+      await morgenClient.deleteEvent(reference, seriesUpdateMode);
+    } catch (error) {
+      await undoMorgenEventMove(notionPageId, morgenEvent, createdEvent.id, calendar);
+      throw error;
+    }
+    delete links[morgenEvent.morgenEventId];
+    eventPair.notion.morgenEventId = createdEvent.id;
+    eventPair.morgen = { ...movedEvent, morgenEventId: createdEvent.id };
+    console.log('Morgen event moved succesfully to calendar:', calendar.calendarId)
+  } catch (error) {
+    console.error('Error moving Morgen event:', error.response?.data || error.message);
+    action.error = error.response?.data?.message || error.message;
+  }
+  return action;
+}
+
+/**
+ * Links a Notion task to its old Morgen event again and deletes the event created in the new calendar,
+ * after the old event could not be deleted. Otherwise the old event would come back as a new, unlinked event.
+ * The move is tried again in the next cycle.
+ *
+ * @param {string} notionPageId - The ID of the Notion task.
+ * @param {UniversalTaskEvent} oldEvent - The event that could not be deleted.
+ * @param {string} createdEventId - The ID of the event created in the new calendar.
+ * @param {MorgenCalendar} calendar - The new calendar.
+ */
+async function undoMorgenEventMove(notionPageId: string, oldEvent: UniversalTaskEvent, createdEventId: string, calendar: MorgenCalendar) {
+  const linkAction = await updateNotionPageWithMorgenEventId(notionPageId, oldEvent.morgenEventId);
+  if (linkAction.error) {
+    console.error(`Could not link Notion task ${notionPageId} to its old Morgen event ${oldEvent.morgenEventId} again:`, linkAction.error);
+    return;
+  }
+  delete links[createdEventId];
+  await morgenClient.deleteEvent({ id: createdEventId, ...calendar });
+}
+
+/**
+ * Sets the Status property of a Notion task.
+ *
+ * @param {UniversalTaskEvent} notionTask - The Notion task to update; its status is updated once the request succeeded.
+ * @param {string} status - The name of the new status.
+ */
+async function updateNotionTaskStatus(notionTask: UniversalTaskEvent, status: string) {
+  const action = recordAction({
+    type: "update",
+    target: "notion",
+    id: notionTask.notionPageId,
+    title: notionTask.title,
+    changes: diffFields({ status: notionTask.status }, { status }),
+  });
+  if (dryRun) {
+    return action;
+  }
+
+  try {
+    await callApi("notion", () => notion.pages.update({
+      page_id: notionTask.notionPageId,
+      properties: {
+        [propertyNames.status]: {
+          status: {
+            name: status
+          }
+        }
+      }
+    }), { idempotent: true });
+    notionTask.status = status;
+    console.log('Notion task status updated succesfully:', status)
+  } catch (error) {
+    console.error('Error updating Notion task status:', error)
+    action.error = error.response?.data?.message || error.message;
+  }
+  return action;
+}
+
+/**
+ * Sets the Area property of a Notion task.
+ *
+ * @param {UniversalTaskEvent} notionTask - The Notion task to update; its Area is updated once the request succeeded.
+ * @param {string} area - The name of the new Area.
+ */
+async function updateNotionTaskArea(notionTask: UniversalTaskEvent, area: string) {
+  const action = recordAction({
+    type: "update",
+    target: "notion",
+    id: notionTask.notionPageId,
+    title: notionTask.title,
+    changes: diffFields({ area: notionTask.area }, { area }),
+  });
+  if (dryRun) {
+    return action;
+  }
+
+  try {
+    await callApi("notion", () => notion.pages.update({
+      page_id: notionTask.notionPageId,
+      properties: {
+        [propertyNames.area]: {
+          select: {
+            name: area
+          }
         }
-      });
-      console.log('Notion task updated succesfully:')
-    } catch (error) {
-      console.error('Error updating Notion task:', error)
-    }
+      }
+    }), { idempotent: true });
+    notionTask.area = area;
+    console.log('Notion task area updated succesfully:', area)
+  } catch (error) {
+    console.error('Error updating Notion task area:', error)
+    action.error = error.response?.data?.message || error.message;
   }
+  return action;
 }
 
 // Create Task/Event functions
@@ -468,43 +1817,52 @@ async function updateNotionTask(truthEvent: UniversalTaskEvent, notionEvent: Uni
 async function createNotionTaskFromEvent(eventPair: EventPair, newMap: { [key: string]: EventPair }) {
   if (eventPair.morgen) {
     const morgen = eventPair.morgen
+    const status = (syncConfig.status.enabled && syncConfig.status.morgenToNotion[morgen.status as MorgenStatus]) || syncConfig.notion.defaults.status;
+    const area = morgen.area || syncConfig.notion.defaults.area;
+    const action = recordAction({
+      type: "create",
+      target: "notion",
+      id: null,
+      title: morgen.title,
+      changes: diffFields({}, { title: morgen.title, description: morgen.description, date: morgen.date, area, status }),
+    });
+    if (dryRun) {
+      return action;
+    }
+
+    const bodyBlocks = buildPageBody(morgen.description);
     try {
-      const rawResponse = await notion.pages.create({
+      const rawResponse = await callApi("notion", () => notion.pages.create({
           "parent": {
               "type": "database_id",
               "database_id": databaseId
           },
           "properties": {
-              "Name": {
+              [propertyNames.title]: {
                   "title": [{
                       "text": {
                           "content": morgen.title
                       }
                   }]
               },
-              "Description": {
-                  "rich_text": [{
-                      "text": {
-                          "content": morgen.description
-                      }
-                  }]
+              [propertyNames.description]: {
+                  "rich_text": markdownToRichText(syncConfig.notion.pageBody ? '' : morgen.description)
               },
-              "Due date": {
-                  "date": {
-                      "start": morgen.date
-                  }
+              [propertyNames.dueDate]: {
+                  "date": buildNotionDateRange(morgen.date, morgen.duration)
               },
-              "Area": {
+              ...buildDurationProperty(morgen.duration),
+              [propertyNames.area]: {
                 "select": {
-                  "name": "School" // This can be improved upon (right now just set it to default School Area)
+                  "name": area
                 }
               },
-              "Status": {
+              [propertyNames.status]: {
                 "status": {
-                  "name": "Not started"
+                  "name": status
                 }
               },
-              "Morgen Event ID": {
+              [propertyNames.morgenEventId]: {
                 "rich_text": [{
                   "text": {
                     "content": morgen.morgenEventId ?? ''
@@ -512,20 +1870,8 @@ async function createNotionTaskFromEvent(eventPair: EventPair, newMap: { [key: s
                 }]
               }
           },
-          "children": [
-              {
-                  "object": "block",
-                  "paragraph": {
-                      "rich_text": [{
-                          "text": {
-                              "content": "This task was synced from Morgen.",
-                          }
-                      }],
-                      "color": "default"
-                  }
-              }
-          ]
-      });
+          "children": bodyBlocks.slice(0, NOTION_BLOCK_LIMIT)
+      }), { idempotent: false });
 
       const response = rawResponse as NotionTaskCreationResponse;
 
@@ -535,7 +1881,7 @@ async function createNotionTaskFromEvent(eventPair: EventPair, newMap: { [key: s
       delete newMap[onlyMorgenKey];
 
       morgen.notionPageId = response.id;
-      await updateMorgenEventWithNotionPageId(morgen.notionPageId, morgen.morgenEventId, morgen.description);
+      await updateMorgenEventWithNotionPageId(morgen.notionPageId, morgen);
 
       eventPair.notion = {
         notionPageId: response.id,
@@ -544,62 +1890,144 @@ async function createNotionTaskFromEvent(eventPair: EventPair, newMap: { [key: s
         description: morgen.description,
         date: morgen.date,
         duration: morgen.duration,
+        status: status,
+        area: area,
+        accountId: null,
+        calendarId: null,
+        isSeries: false,
+        hasLinkTag: false,
         lastUpdate: response.last_edited_time,
       };
       
       const newKey = generateEventPairKey(eventPair);
       newMap[newKey] = eventPair;
 
+      // the page exists and is linked now; a failed write of the rest of its body is reported on its own
+      const bodyAction = await appendPageBlocks(response.id, morgen.title, bodyBlocks.slice(NOTION_BLOCK_LIMIT));
+      if (bodyAction?.error && syncConfig.notion.pageBody) {
+        // keep what the page holds as its description, so the next cycle doesn't write the shortened body to Morgen
+        eventPair.notion.description = blocksToMarkdown(bodyBlocks.slice(0, NOTION_BLOCK_LIMIT));
+      }
   } catch (error) {
       console.error('Error creating Notion task:', error);
+      action.error = error.response?.data?.message || error.message;
+  }
+    return action;
+  }
+}
+
+/**
+ * Returns the body blocks for a page created from a Morgen event: the description as blocks,
+ * or a note that the task came from Morgen if there is no description.
+ *
+ * @param {string} description - The description of the Morgen event, as Markdown.
+ * @returns {BlockObjectRequest[]} - The blocks of the page body.
+ */
+function buildPageBody(description: string): BlockObjectRequest[] {
+  const blocks = markdownToBlocks(description);
+  return blocks.length ? blocks : markdownToBlocks("This task was synced from Morgen.");
+}
+
+/**
+ * Appends blocks to the body of a Notion page, in batches that stay within the Notion block limit.
+ *
+ * @param {string} pageId - The ID of the page.
+ * @param {string} title - The title of the page, for the plan.
+ * @param {BlockObjectRequest[]} blocks - The blocks to append.
+ * @returns {Promise<PlannedAction | undefined>} - The recorded action, or undefined if there was nothing to append.
+ */
+async function appendPageBlocks(pageId: string, title: string, blocks: BlockObjectRequest[]) {
+  if (!blocks.length) {
+    return;
   }
+
+  const action = recordAction({
+    type: "update",
+    target: "notion",
+    id: pageId,
+    title,
+    changes: [],
+  });
+
+  try {
+    for (let start = 0; start < blocks.length; start += NOTION_BLOCK_LIMIT) {
+      const children = blocks.slice(start, start + NOTION_BLOCK_LIMIT);
+      await callApi("notion", () => notion.blocks.children.append({ block_id: pageId, children }), { idempotent: false });
+    }
+  } catch (error) {
+    console.error('Error writing the body of the Notion page:', error);
+    action.error = error.response?.data?.message || error.message;
   }
+  return action;
 }
 
 /**
  * Creates a new event in Morgen from a Notion task.
  * This function converts a Notion task into a format suitable for Morgen and creates a new event.
  * It also updates the event mapping to associate the newly created Morgen event with the Notion task.
+ * The event is created in the calendar of the task's Area. A task whose status is mapped to a done action
+ * is created as done; one whose status removes its event is skipped. If the task can't be linked to the new event,
+ * the event is deleted again and created in a later cycle.
  *
  * @param {UniversalTaskEvent} task - The Notion task to be converted into a Morgen event.
  * @param {{ [key: string]: EventPair }} newMap - The map to update with the new Morgen event.
  */
 async function createMorgenEventFromTask(task: UniversalTaskEvent, newMap: { [key: string]: EventPair }) {
-  const API_URL = "https://api.morgen.so/v3/events/create";
-
-  const idPlusDescription = task.notionPageId ? `#PAGEID:${task.notionPageId}#${task.description}`: task.description;
+  const statusAction = getStatusAction(syncConfig.status, task.status);
+  if (statusAction === "remove") {
+    console.log(`Not creating a Morgen event for "${task.title}" with status ${task.status}`);
+    return;
+  }
 
   const hasTime = task.date.includes('T');
+  const calendar = statusAction === "move" && syncConfig.status.doneCalendarId ? getDoneCalendar() : getCalendarForArea(task.area);
+  const status: MorgenStatus = statusAction === "none" ? "open" : "done";
 
-  const requestBody = {
-    accountId: process.env.MORGEN_ACCOUNT_ID,
-    calendarId: process.env.MORGEN_CALENDAR_ID,
-    title: task.title,
-    description: idPlusDescription,
+  const request: MorgenCreateEventRequest = {
+    ...calendar,
+    title: formatMorgenTitle(syncConfig.status, { title: task.title, status, calendarId: calendar.calendarId }),
+    description: formatMorgenDescription(task.description, task.notionPageId),
     start: formatToMorgenDateTime(task.date),
     duration: task.duration,
     showWithoutTime: !hasTime,
-    timeZone: "UTC"
+    timeZone: syncConfig.sync.timeZone
   };
 
+  const action = recordAction({
+    type: "create",
+    target: "morgen",
+    id: null,
+    title: task.title,
+    changes: diffFields({}, { title: task.title, description: task.description, date: task.date, duration: task.duration }),
+  });
+  if (dryRun) {
+    return action;
+  }
+
   try {
-    const response = await axios.post(API_URL, requestBody, {
-      headers: {
-        "accept": "application/json",
-        "Authorization": `ApiKey ${process.env.MORGEN_API_KEY}`
-      }
-    });
+    const createdEvent = await morgenClient.createEvent(request);
     
     console.log('Morgen event created successfully:');
 
   if (task.notionPageId) {
-    task.morgenEventId = response.data.data.event.id;
-    await updateNotionPageWithMorgenEventId(task.notionPageId, task.morgenEventId);
+    // without the link, the next cycle would take the task and the event for two new items and create both again
+    const linkAction = await updateNotionPageWithMorgenEventId(task.notionPageId, createdEvent.id);
+    if (linkAction.error) {
+      await morgenClient.deleteEvent({ id: createdEvent.id, ...calendar });
+      throw new Error(`could not link the created event: ${linkAction.error}`);
+    }
+    task.morgenEventId = createdEvent.id;
+    links[createdEvent.id] = task.notionPageId;
     const eventPair: EventPair = {
       notion: task,
       morgen: {
         ...task, 
-        morgenEventId: task.morgenEventId
+        morgenEventId: task.morgenEventId,
+        status,
+        area: getAreaForCalendar(calendar),
+        isSeries: false,
+        hasLinkTag: syncConfig.links.descriptionTag,
+        ...calendar
       }
     };
     const newKey = generateEventPairKey(eventPair);
@@ -608,154 +2036,335 @@ async function createMorgenEventFromTask(task: UniversalTaskEvent, newMap: { [ke
     
   } catch (error) {
     console.error('Error in createMorgenEventFromTask:', error.response?.data || error.message);
+    action.error = error.response?.data?.message || error.message;
   }
-
+  return action;
 }
 
 // Update ID Functions
 /**
  * Updates a Notion page with the ID of a corresponding Morgen event.
  * This function is typically used to link a Notion task to its equivalent event in Morgen.
+ * An empty event ID clears the property, which unlinks the page.
  *
  * @param {string} notionPageId - The ID of the Notion page to be updated.
  * @param {string} morgenEventId - The ID of the Morgen event to be linked.
  */
 async function updateNotionPageWithMorgenEventId(notionPageId, morgenEventId) {
+  const action = recordAction({ type: "update", target: "notion", id: notionPageId, title: "", changes: diffFields({}, { morgenEventId }) });
+  if (dryRun) {
+    return action;
+  }
+
   try {
-    const response = await notion.pages.update({
+    const response = await callApi("notion", () => notion.pages.update({
       page_id: notionPageId,
       properties: {
-        'Morgen Event ID': {
-          rich_text: [
+        [propertyNames.morgenEventId]: {
+          rich_text: morgenEventId ? [
             {
               text: {
                 content: morgenEventId
               }
             }
-          ]
+          ] : []
         }
       }
-    });
+    }), { idempotent: true });
     console.log('Notion page updated with Morgen Event ID: ');
   } catch (error) {
     console.log('Error updating Notion page: error');
+    action.error = error.response?.data?.message || error.message;
   }
+  return action;
 }
 
 /**
- * Updates a Morgen event with the ID of a corresponding Notion page.
- * This function is typically used to link a Morgen event to its equivalent task in Notion.
+ * Links a Morgen event to the ID of a corresponding Notion page.
+ * The link is kept in the link store; if description tags are enabled, the tag is written to the event as well.
  *
  * @param {string} notionPageId - The ID of the Notion page to be linked.
- * @param {string} morgenEventId - The ID of the Morgen event to be updated.
- * @param {string} currentDescription - The current description of the Morgen event.
+ * @param {UniversalTaskEvent} morgenEvent - The Morgen event to be linked, with its current description.
  */
-async function updateMorgenEventWithNotionPageId(notionPageId, morgenEventId, currentDescription) {
+async function updateMorgenEventWithNotionPageId(notionPageId: string, morgenEvent: UniversalTaskEvent) {
+  if (!dryRun) {
+    links[morgenEvent.morgenEventId] = notionPageId;
+  }
+  if (!syncConfig.links.descriptionTag) {
+    return;
+  }
+
   console.log("updating morgen event with notion page id...")
+  const morgenEventId = morgenEvent.morgenEventId;
+  const currentDescription = morgenEvent.description;
+  const newDescription = addLinkTag(currentDescription, notionPageId);
+
+  const { reference, seriesUpdateMode } = getMorgenEventReference(morgenEvent);
+  const request: MorgenUpdateEventRequest = {
+    ...reference,
+    description: newDescription,
+  };
 
-  const UPDATE_MODE = "single";
-  const API_URL = "https://api.morgen.so/v3/events/update?seriesUpdateMode=" + UPDATE_MODE;
+  const action = recordAction({
+    type: "update",
+    target: "morgen",
+    id: morgenEventId,
+    title: "",
+    changes: diffFields({ description: currentDescription }, { description: newDescription }),
+  });
+  if (dryRun) {
+    return action;
+  }
 
-  // check if description already contains a PAGEID tag and update accordingly
-  const notionIdPattern = /^#PAGEID:([\w-]+)#/;
-  const existingMatch = notionIdPattern.exec(currentDescription);
-  let newDescription = currentDescription;
+  try {
+    await morgenClient.updateEvent(request, seriesUpdateMode);
+    morgenEvent.hasLinkTag = true;
+    console.log('Morgen event updated succesfully:')
+  } catch (error) {
+    console.log('Error updating Morgen event:', error)
+    action.error = error.response?.data?.message || error.message;
+  }
+  return action;
+}
 
-  // if  PAGEID tag is not present in the description, add it to front
-  if (!existingMatch) {
-    newDescription = `#PAGEID:${notionPageId}# ${currentDescription}`;
+/**
+ * Removes the link from a Morgen event to its Notion page: the stored link and, if there is one, the description tag.
+ *
+ * @param {UniversalTaskEvent} morgenEvent - The Morgen event to be unlinked, with its description without the page ID tag.
+ */
+async function clearMorgenEventNotionPageId(morgenEvent: UniversalTaskEvent) {
+  if (!dryRun) {
+    delete links[morgenEvent.morgenEventId];
   }
+  if (morgenEvent.hasLinkTag) {
+    await removeMorgenEventLinkTag(morgenEvent);
+  }
+}
 
-  const requestBody = {
-    accountId: process.env.MORGEN_ACCOUNT_ID,
-    calendarId: process.env.MORGEN_CALENDAR_ID,
-    id: morgenEventId,
-    description: newDescription,
+/**
+ * Removes the page ID tag from the description of a Morgen event.
+ *
+ * @param {UniversalTaskEvent} morgenEvent - The Morgen event, with its description without the page ID tag.
+ */
+async function removeMorgenEventLinkTag(morgenEvent: UniversalTaskEvent) {
+  const { reference, seriesUpdateMode } = getMorgenEventReference(morgenEvent);
+  const request: MorgenUpdateEventRequest = {
+    ...reference,
+    description: morgenEvent.description.trim(),
   };
 
+  const action = recordAction({ type: "update", target: "morgen", id: morgenEvent.morgenEventId, title: "", changes: diffFields({}, { notionPageId: "" }) });
+  if (dryRun) {
+    return action;
+  }
+
   try {
-    const response = await axios.post(API_URL, requestBody, {
-      headers: {
-        "accept": "application/json",
-        "Authorization": `ApiKey ${process.env.MORGEN_API_KEY}`
-      }
-    });
-    console.log('Morgen event updated succesfully:')
+    await morgenClient.updateEvent(request, seriesUpdateMode);
+    morgenEvent.hasLinkTag = false;
+    console.log('Morgen event link tag removed succesfully:')
   } catch (error) {
     console.log('Error updating Morgen event:', error)
+    action.error = error.response?.data?.message || error.message;
   }
-
+  return action;
 }
 
 // Get Task/Event functions
 /**
  * Fetches events from the Morgen API within a specified time range.
  * This function makes a request to the Morgen API and retrieves events between the 'from' and 'to' dates.
+ * A failed request or an unexpected response is thrown, so that it aborts the sync cycle
+ * instead of looking like an empty calendar.
  *
  * @param {DateTime} from - The start date/time for fetching events.
  * @param {DateTime} to - The end date/time for fetching events.
  * @returns {Promise<MorgenEvent[]>} - A promise that resolves to an array of Morgen events.
  */
 async function getEventsFromMorgenAPI(from:DateTime, to:DateTime): Promise<MorgenEvent[]> {
-  const url = `https://api.morgen.so/v3/events/list?accountId=${process.env.MORGEN_ACCOUNT_ID}&calendarIds=${process.env.MORGEN_CALENDAR_ID}&start=${from.toISO({ suppressMilliseconds: true, includeOffset: false })}&end=${to.toISO({ suppressMilliseconds: true, includeOffset: false })}`;
-
-  try {
-    const response = await axios.get(url, {
-      headers: {
-        "accept": "application/json",
-        "Authorization": `ApiKey ${process.env.MORGEN_API_KEY}`
-      }
-    });
+  const calendarIdsByAccount: { [accountId: string]: string[] } = {};
+  for (const calendar of getMorgenCalendars()) {
+    calendarIdsByAccount[calendar.accountId] = [...(calendarIdsByAccount[calendar.accountId] ?? []), calendar.calendarId];
+  }
 
-    try {
-      const morgenEvents = convertToMorgenEvents(response.data.data);
-      return morgenEvents
-    } catch (error) {
-        console.error("Error converting events:", error.message);
-    }
+  const events: MorgenApiEvent[] = [];
+  for (const accountId of Object.keys(calendarIdsByAccount)) {
+    const accountEvents = await morgenClient.listEvents(
+      from.toISO({ suppressMilliseconds: true, includeOffset: false }),
+      to.toISO({ suppressMilliseconds: true, includeOffset: false }),
+      calendarIdsByAccount[accountId],
+      accountId
+    );
+    events.push(...accountEvents.map(event => ({ ...event, accountId: event.accountId || accountId })));
+  }
+  return convertToMorgenEvents(events);
+}
 
-  } catch (error) {
-    console.error('Error fetching events:', error.response?.data || error.message);
+// Calendar functions
+/**
+ * Returns the Morgen calendars that are synchronized: the default calendar, the calendar of every mapped Area
+ * and, if one is configured, the done calendar (in the default account).
+ *
+ * @returns {MorgenCalendar[]} - The calendars, each listed once.
+ */
+function getMorgenCalendars(): MorgenCalendar[] {
+  const calendars = [defaultCalendar, ...Object.values(syncConfig.morgen.calendars)];
+  if (syncConfig.status.enabled && syncConfig.status.doneCalendarId) {
+    calendars.push(getDoneCalendar());
   }
-  return [];
+  return calendars.filter((calendar, index) =>
+    calendars.findIndex(other => isSameCalendar(other, calendar)) === index);
 }
 
 /**
- * Converts the raw data from the Morgen API to an array of MorgenEvent objects.
- * This function processes the raw event data, extracting relevant information and formatting it as needed.
+ * Returns the Morgen calendar for a Notion Area, or the default calendar if the Area is not mapped.
  *
- * @param {any} data - The raw data from the Morgen API.
- * @returns {MorgenEvent[]} - An array of MorgenEvent objects.
+ * @param {string} area - The name of the Area.
+ * @returns {MorgenCalendar} - The calendar for events of that Area.
+ */
+function getCalendarForArea(area: string): MorgenCalendar {
+  return syncConfig.morgen.calendars[area] ?? defaultCalendar;
+}
+
+/**
+ * Returns the Notion Area that is mapped to the calendar of a Morgen event.
+ *
+ * @param {{ accountId: string | null, calendarId: string | null }} calendar - The account and calendar of the event.
+ * @returns {string} - The name of the Area, or an empty string if no Area is mapped to the calendar.
+ */
+function getAreaForCalendar(calendar: { accountId: string | null, calendarId: string | null }): string {
+  const mapping = syncConfig.morgen.calendars;
+  return Object.keys(mapping).find(area => isSameCalendar(mapping[area], calendar)) ?? '';
+}
+
+/**
+ * Returns the calendar that done events are moved to.
+ *
+ * @returns {MorgenCalendar} - The done calendar.
+ */
+function getDoneCalendar(): MorgenCalendar {
+  return { accountId: defaultCalendar.accountId, calendarId: syncConfig.status.doneCalendarId };
+}
+
+/**
+ * Checks whether an event is in the done calendar.
+ *
+ * @param {UniversalTaskEvent} morgenEvent - The Morgen event.
+ * @returns {boolean} - Returns true if a done calendar is configured and the event is in it.
+ */
+function isInDoneCalendar(morgenEvent: UniversalTaskEvent): boolean {
+  return Boolean(syncConfig.status.doneCalendarId) && isSameCalendar(getDoneCalendar(), morgenEvent);
+}
+
+function isSameCalendar(calendar: { accountId: string | null, calendarId: string | null }, other: { accountId: string | null, calendarId: string | null }): boolean {
+  return calendar.accountId === other.accountId && calendar.calendarId === other.calendarId;
+}
+
+/**
+ * Returns how a Morgen event is addressed in update and delete requests.
+ * An occurrence of a recurring event is changed on its own, a series as a whole.
+ *
+ * @param {UniversalTaskEvent} morgenEvent - The Morgen event.
+ * @returns {{ reference: MorgenDeleteEventRequest, seriesUpdateMode: SeriesUpdateMode }} - The event's ID, recurrence ID,
+ * account and calendar, and the series update mode.
+ */
+function getMorgenEventReference(morgenEvent: UniversalTaskEvent): { reference: MorgenDeleteEventRequest, seriesUpdateMode: SeriesUpdateMode } {
+  const { id, recurrenceId, seriesUpdateMode } = getEventReference(morgenEvent.morgenEventId, morgenEvent.isSeries);
+  return {
+    reference: {
+      id,
+      recurrenceId,
+      accountId: morgenEvent.accountId || undefined,
+      calendarId: morgenEvent.calendarId || undefined,
+    },
+    seriesUpdateMode,
+  };
+}
+
+/**
+ * Looks up a single Morgen event by its ID.
+ * The Morgen API has no endpoint for a single event, so the calendar is searched over the sync window
+ * widened by the configured number of lookup days on either side. The events are only listed for the first
+ * lookup of a cycle; later lookups in the same cycle use that listing.
+ *
+ * @param {string} morgenEventId - The ID of the event to look up.
+ * @returns {Promise<UniversalTaskEvent | null>} - The event, or null if it no longer exists within the lookup range.
  */
-function convertToMorgenEvents(data:any): MorgenEvent[] {
-  if (!data.events) {
-    throw new Error('data.events is missing or undefined');
+async function findMorgenEventById(morgenEventId: string): Promise<UniversalTaskEvent | null> {
+  if (!morgenLookupEvents) {
+    const { from, to } = getSyncWindow();
+    const lookupDays = syncConfig.sync.moveLookupDays;
+    const events = await getEventsFromMorgenAPI(from.minus({ days: lookupDays }), to.plus({ days: lookupDays }));
+    morgenLookupEvents = new Map(events.map(event => [event.eventId, event]));
   }
+  const event = morgenLookupEvents.get(morgenEventId);
+  return event ? convertMorgenToUniversal(event) : null;
+}
 
-  if (!Array.isArray(data.events)) {
-    console.error('Unexpected: data.events is not an array', data.events);
+/**
+ * Looks up a single Notion task by its page ID.
+ *
+ * @param {string} notionPageId - The ID of the page to look up.
+ * @returns {Promise<UniversalTaskEvent | null>} - The task, or null if the page was deleted or archived.
+ */
+async function findNotionTaskById(notionPageId: string): Promise<UniversalTaskEvent | null> {
+  let page: any;
+  try {
+    page = await callApi("notion", () => notion.pages.retrieve({ page_id: notionPageId }), { idempotent: true });
+  } catch (error) {
+    const notionError = error instanceof RequestError ? error.originalError : error;
+    if (isNotionClientError(notionError) && notionError.code === APIErrorCode.ObjectNotFound) {
+      return null;
+    }
+    throw error;
   }
 
-  return data.events.map(event => {
-    let pageId = '';
-    let description = event.description ?? '';
+  if (page.archived) {
+    return null;
+  }
+  if (!isValidTask(page)) {
+    throw new Error(`page ${notionPageId} is incomplete`);
+  }
+  return convertNotionToUniversal(await addPageBody(convertPageToTask(page)));
+}
 
-    // extract notion pageid and adjust description
-    const notionIdPattern = /^#PAGEID:([\w-]+)#/;
-    const match = notionIdPattern.exec(description);
-    if (match) {
-      pageId = match[1];
-      description = description.replace(notionIdPattern,'');
+/**
+ * Converts the events returned by the Morgen API to an array of MorgenEvent objects.
+ * This function processes the raw event data, extracting relevant information and formatting it as needed.
+ * Occurrences of recurring events get their own ID or are collapsed into their series, depending on the config.
+ *
+ * @param {MorgenApiEvent[]} events - The validated events from the Morgen API.
+ * @returns {MorgenEvent[]} - An array of MorgenEvent objects.
+ */
+function convertToMorgenEvents(events: MorgenApiEvent[]): MorgenEvent[] {
+  const knownSeriesStarts: { [seriesId: string]: string } = {};
+  for (const eventPair of Object.values(oldUniversalEventMap)) {
+    if (eventPair.morgen?.isSeries) {
+      knownSeriesStarts[eventPair.morgen.morgenEventId] = eventPair.morgen.date;
     }
+  }
 
-    const eventStartInUTC = DateTime.fromISO(event.start, { zone: event.timeZone }).toISO();
+  return resolveRecurringEvents(events, syncConfig.sync.recurringEvents, knownSeriesStarts).map(event => {
+    // the stored link wins over a page ID tag left in the description
+    const { pageId: taggedPageId, description } = readLinkTag(event.description ?? '');
+    const pageId = links[event.id] || taggedPageId;
+
+    // all-day events keep their day, whatever their time zone
+    const eventStartInUTC = event.showWithoutTime
+      ? event.start.split('T')[0]
+      : DateTime.fromISO(event.start, { zone: event.timeZone }).toUTC().toISO();
+    const { title, status } = readMorgenStatus(syncConfig.status, event);
 
     return {
       eventId: event.id || '',
-      title: event.title || '',
+      accountId: event.accountId || defaultCalendar.accountId,
+      calendarId: event.calendarId || defaultCalendar.calendarId,
+      isSeries: event.isSeries,
+      hasLinkTag: Boolean(taggedPageId),
+      title: title,
       description: description || '',
       start: eventStartInUTC || '',
       duration: event.duration || '',
+      status: status,
       pageId: pageId || '',
       lastUpdate: event.updated || ''
     };
@@ -771,31 +2380,57 @@ function convertToMorgenEvents(data:any): MorgenEvent[] {
  * @returns {Promise<Task[]>} - A promise that resolves to an array of Notion tasks.
  */
 async function getTasksFromNotionDatabase(from:DateTime, to:DateTime): Promise<Task[]> {
+  return queryNotionTasks({
+    "and": [
+      {
+        "property": propertyNames.dueDate,
+        "date": {
+          "on_or_after": formatToISODate(from)
+        }
+      },
+      {
+        "property": propertyNames.dueDate,
+        "date": {
+          "on_or_before": formatToISODate(to)
+        }
+      }
+    ]
+  });
+}
+
+/**
+ * Fetches the tasks from the Notion database that were edited since a given time, whatever their due date.
+ * Archived pages are not returned by the query; their deletion is noticed by the next full reconciliation.
+ *
+ * @param {DateTime} since - The earliest last edit to include.
+ * @returns {Promise<Task[]>} - A promise that resolves to an array of Notion tasks.
+ */
+async function getChangedTasksFromNotionDatabase(since: DateTime): Promise<Task[]> {
+  return queryNotionTasks({
+    "timestamp": "last_edited_time",
+    "last_edited_time": {
+      "on_or_after": formatToISODate(since)
+    }
+  });
+}
+
+/**
+ * Queries the Notion database with a filter, page by page, and converts the complete tasks.
+ *
+ * @param {any} filter - The Notion database filter.
+ * @returns {Promise<Task[]>} - A promise that resolves to an array of Notion tasks.
+ */
+async function queryNotionTasks(filter: any): Promise<Task[]> {
   const pages = []
   let cursor = undefined
 
   const shouldContinue = true
   while (shouldContinue) {
-    const { results, next_cursor } = await notion.databases.query({
+    const { results, next_cursor } = await callApi("notion", () => notion.databases.query({
       database_id: databaseId,
-      filter: {
-        "and": [
-          {
-            "property": "Due date",
-            "date": {
-              "on_or_after": formatToISODate(from)
-            }
-          },
-          {
-            "property": "Due date",
-            "date": {
-              "on_or_before": formatToISODate(to)
-            }
-          }
-        ]
-      },
+      filter,
       start_cursor: cursor,
-    })
+    }), { idempotent: true })
     pages.push(...results)
     if (!next_cursor) {
       break
@@ -812,50 +2447,105 @@ async function getTasksFromNotionDatabase(from:DateTime, to:DateTime): Promise<T
       continue;
     }
 
-    tasks.push({
-      pageId: page.id,
-      title: getTitlePropertyValue(page.properties["Name"]),
-      dueDate: getDueDatePropertyValue(page.properties["Due date"]),
-      description: getDescriptionPropertyValue(page.properties["Description"]),
-      area: getAreaPropertyValue(page.properties["Area"]),
-      status: getStatusPropertyValue(page.properties["Status"]),
-      eventId: getEventIdPropertyValue(page.properties["Morgen Event ID"]),
-      lastUpdate: getLastUpdatePropertyValue(page.properties["Last Update"]),
-    });
+    tasks.push(await addPageBody(convertPageToTask(page)));
   }
   return tasks;
 }
 
+/**
+ * Converts a Notion page into a task by reading the mapped properties.
+ *
+ * @param {any} page - The Notion page object, which must be a valid task.
+ * @returns {Task} - The Notion task.
+ */
+function convertPageToTask(page: any): Task {
+  return {
+    pageId: page.id,
+    title: getTitlePropertyValue(page.properties[propertyNames.title]),
+    dueDate: getDueDatePropertyValue(page.properties[propertyNames.dueDate]),
+    duration: getDurationValue(page.properties[propertyNames.dueDate], propertyNames.duration ? page.properties[propertyNames.duration] : undefined),
+    description: getDescriptionPropertyValue(page.properties[propertyNames.description]),
+    area: getAreaPropertyValue(page.properties[propertyNames.area]),
+    status: getStatusPropertyValue(page.properties[propertyNames.status]),
+    eventId: getEventIdPropertyValue(page.properties[propertyNames.morgenEventId]),
+    lastUpdate: getLastUpdatePropertyValue(page.properties[propertyNames.lastUpdate]),
+  };
+}
+
+/**
+ * Adds the page body to the description of a task, if page bodies are synced.
+ * The body follows the Description property, separated by an empty line.
+ *
+ * @param {Task} task - The Notion task.
+ * @returns {Promise<Task>} - The task with the page body in its description.
+ */
+async function addPageBody(task: Task): Promise<Task> {
+  if (!syncConfig.notion.pageBody) {
+    return task;
+  }
+  const body = await getPageBodyMarkdown(task.pageId);
+  task.description = [task.description.trim(), body].filter(Boolean).join('\n\n');
+  return task;
+}
+
+/**
+ * Fetches the blocks of a Notion page body and renders them as Markdown.
+ *
+ * @param {string} pageId - The ID of the page.
+ * @returns {Promise<string>} - The page body as Markdown.
+ */
+async function getPageBodyMarkdown(pageId: string): Promise<string> {
+  const blocks = []
+  let cursor = undefined
+
+  const shouldContinue = true
+  while (shouldContinue) {
+    const { results, next_cursor } = await callApi("notion", () => notion.blocks.children.list({
+      block_id: pageId,
+      start_cursor: cursor,
+    }), { idempotent: true })
+    blocks.push(...results)
+    if (!next_cursor) {
+      break
+    }
+    cursor = next_cursor
+  }
+  return blocksToMarkdown(blocks);
+}
+
 /**
  * Validates a Notion page to check if it represents a complete task.
- * It checks for the presence and correctness of required properties like Name, Due date, Description, Area, and Status.
+ * It checks for the presence and correctness of the required properties (title, due date, description, area and status),
+ * looked up through the configured property mapping. The description may be empty, like that of a page created
+ * from a Morgen event without one or of a page whose description is in its body.
  *
  * @param {any} page - The Notion page object to be validated.
  * @returns {boolean} - Returns true if the page has all required properties and they are correctly formatted, false otherwise.
  */
 function isValidTask(page: any): boolean {
-  const requiredProperties = ["Name", "Due date", "Description", "Area", "Status"];
+  const requiredFields: (keyof NotionPropertyMapping)[] = ["title", "dueDate", "description", "area", "status"];
   
-  for (const propName of requiredProperties) {
-    const property = page.properties[propName];
+  for (const field of requiredFields) {
+    const property = page.properties[propertyNames[field]];
     if (!property) {
       return false;
     }
     
-    switch(propName) {
-      case "Name":
+    switch(field) {
+      case "title":
         if (property.type !== "title" || !property.title.length) return false;
         break;
-      case "Due date":
+      case "dueDate":
         if (property.type !== "date" || !property.date || !property.date.start) return false;
         break;
-      case "Description":
-        if (property.type !== "rich_text" || !property.rich_text.length) return false;
+      case "description":
+        // an empty description is valid; Notion returns it as an empty list
+        if (property.type !== "rich_text") return false;
         break;
-      case "Area":
+      case "area":
         if (property.type !== "select" || !property.select) return false;
         break;
-      case "Status":
+      case "status":
         if (property.type !== "status" || !property.status) return false;
         break;
       default:
@@ -927,14 +2617,46 @@ function getDueDatePropertyValue(property: any): string {
 }
 
 /**
- * Extracts the description property value from a Notion page property.
+ * Determines the duration of a task from its Notion properties.
+ * A due date range gives the duration directly; otherwise the mapped numeric duration property (in minutes) is used,
+ * and without either, timed tasks last the configured default and all-day tasks last one day.
+ *
+ * @param {any} dateProperty - The Notion date property object.
+ * @param {any} [durationProperty] - The Notion number property holding the duration in minutes, if one is mapped.
+ * @returns {string} - The duration as an ISO 8601 duration.
+ */
+function getDurationValue(dateProperty: any, durationProperty?: any): string {
+  const start = dateProperty?.date?.start;
+  const end = dateProperty?.date?.end;
+  const hasTime = start?.includes('T');
+
+  if (start && end) {
+    if (!hasTime) {
+      const days = DateTime.fromISO(end).diff(DateTime.fromISO(start), 'days').days + 1;
+      return Duration.fromObject({ days: Math.max(days, 1) }).toISO();
+    }
+    const minutes = DateTime.fromISO(end).diff(DateTime.fromISO(start), 'minutes').minutes;
+    if (minutes > 0) {
+      return formatMinutesAsDuration(minutes);
+    }
+  }
+
+  if (durationProperty?.type === "number" && durationProperty.number > 0) {
+    return formatMinutesAsDuration(durationProperty.number);
+  }
+
+  return hasTime ? syncConfig.notion.defaults.duration : "P1D";
+}
+
+/**
+ * Extracts the description property value from a Notion page property, with its formatting as Markdown.
  *
  * @param {any} property - The Notion rich_text property object.
- * @returns {string} - Returns the description as a string, or "No Description" if no description is present.
+ * @returns {string} - Returns the description as Markdown, or "No Description" if no description is present.
  */
 function getDescriptionPropertyValue(property: any): string {
   if (property?.type === "rich_text") {
-    return property.rich_text.map((textObj: any) => textObj.plain_text).join('');
+    return richTextToMarkdown(property.rich_text);
   }
   return "No Description";
 }
@@ -995,15 +2717,75 @@ function generateEventKey(event:UniversalTaskEvent):string {
 
 // Formatting Date Functions
 /**
- * Formats a date-time string to the Morgen API's expected date-time format.
+ * Builds the Notion date value for a task from its start and duration.
+ * Timed tasks get an end time; all-day tasks only get an end date when they span more than one day.
+ *
+ * @param {string} date - The start date or date-time.
+ * @param {string} duration - The ISO 8601 duration of the task.
+ * @returns {{ start: string, end: string | null }} - The Notion date value.
+ */
+function buildNotionDateRange(date: string, duration: string): { start: string, end: string | null } {
+  const length = Duration.fromISO(duration);
+  if (!length.isValid) {
+    return { start: date, end: null };
+  }
+
+  if (!date.includes('T')) {
+    const days = Math.round(length.as('days'));
+    return { start: date, end: days > 1 ? DateTime.fromISO(date).plus({ days: days - 1 }).toISODate() : null };
+  }
+
+  return { start: date, end: DateTime.fromISO(date, { setZone: true }).plus(length).toISO() };
+}
+
+/**
+ * Builds the Notion property update for the mapped duration property, if there is one.
+ *
+ * @param {string} duration - The ISO 8601 duration of the task.
+ * @returns {object} - The property update, or an empty object if no duration property is mapped.
+ */
+function buildDurationProperty(duration: string): object {
+  const length = Duration.fromISO(duration);
+  if (!propertyNames.duration || !length.isValid) {
+    return {};
+  }
+  return { [propertyNames.duration]: { number: Math.round(length.as('minutes')) } };
+}
+
+/**
+ * Returns the description to write to Morgen, with the page ID tag in front if description tags are enabled.
+ *
+ * @param {string} description - The description without a tag.
+ * @param {string | null} notionPageId - The ID of the linked Notion page, if any.
+ * @returns {string} - The description for Morgen.
+ */
+function formatMorgenDescription(description: string, notionPageId: string | null): string {
+  return syncConfig.links.descriptionTag && notionPageId ? addLinkTag(description, notionPageId) : description;
+}
+
+/**
+ * Formats a number of minutes as an ISO 8601 duration in hours and minutes, e.g. 90 as "PT1H30M".
+ *
+ * @param {number} minutes - The number of minutes.
+ * @returns {string} - The ISO 8601 duration.
+ */
+function formatMinutesAsDuration(minutes: number): string {
+  const rounded = Math.round(minutes);
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return `PT${hours ? `${hours}H` : ''}${rest || !hours ? `${rest}M` : ''}`;
+}
+
+/**
+ * Formats a date-time string to the Morgen API's expected date-time format: the local time in the given zone,
+ * which is sent along as the event's time zone. A date without time becomes midnight of that day in the zone.
  *
  * @param {string} dateTime - The date-time string to format.
- * @param {string} [zone='utc'] - The timezone to use for formatting.
+ * @param {string} [zone] - The timezone to use for formatting, by default the configured one.
  * @returns {string} - The formatted date-time string.
  */
-function formatToMorgenDateTime(dateTime, zone = 'utc') {
+function formatToMorgenDateTime(dateTime, zone = syncConfig.sync.timeZone) {
   return DateTime.fromISO(dateTime, { zone })
-    .toUTC()
     .toFormat("yyyy-MM-dd'T'HH:mm:ss");
 }
 
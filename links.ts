@@ -0,0 +1,105 @@
+/**
+ * Local store of the links between Morgen events and Notion pages.
+ * Morgen has no field for the Notion page ID that other calendar clients don't show, so the link from an event
+ * to its page is kept in a JSON file next to the sync state. The Notion side keeps its link in the
+ * "Morgen Event ID" property. The older "#PAGEID:<id>#" description tag is still read, and can optionally be written.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { writeFileAtomic } from "./state";
+
+const LINKS_VERSION = 1;
+const LINK_TAG_PATTERN = /^#PAGEID:([\w-]+)# ?/;
+
+// Link types
+export type LinkMap = { [morgenEventId: string]: string };
+
+type LinkStore = {
+  version: number;
+  savedAt: string;
+  links: LinkMap;
+}
+
+/**
+ * Returns the path of the link store, configurable through the SYNC_LINKS_PATH environment variable.
+ *
+ * @returns {string} - The absolute path of the link store.
+ */
+export function getLinksPath(): string {
+  return path.resolve(process.env.SYNC_LINKS_PATH || ".morgennotion-links.json");
+}
+
+/**
+ * Loads the links from disk. A missing file means no links were stored yet.
+ * An unreadable or corrupt file is reported and treated as empty; links are then recovered from
+ * the Notion pages' Morgen Event ID property and from description tags.
+ *
+ * @param {string} [linksPath] - The path of the link store.
+ * @returns {Promise<LinkMap>} - The Notion page ID of every linked Morgen event.
+ */
+export async function loadLinks(linksPath = getLinksPath()): Promise<LinkMap> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(linksPath, "utf8");
+  } catch (error) {
+    if (error.code !== "ENOENT") {
+      console.error("Error reading link store:", error.message);
+    }
+    return {};
+  }
+
+  try {
+    const store = JSON.parse(raw) as LinkStore;
+    if (store.version !== LINKS_VERSION || typeof store.links !== "object" || store.links === null) {
+      console.error(`Ignoring link store with unexpected format in ${linksPath}`);
+      return {};
+    }
+    return store.links;
+  } catch (error) {
+    console.error("Error parsing link store:", error.message);
+    return {};
+  }
+}
+
+/**
+ * Saves the links to disk atomically.
+ *
+ * @param {LinkMap} links - The Notion page ID of every linked Morgen event.
+ * @param {string} [linksPath] - The path of the link store.
+ */
+export async function saveLinks(links: LinkMap, linksPath = getLinksPath()) {
+  const store: LinkStore = {
+    version: LINKS_VERSION,
+    savedAt: new Date().toISOString(),
+    links,
+  };
+
+  await writeFileAtomic(linksPath, JSON.stringify(store, null, 2));
+}
+
+/**
+ * Reads the Notion page ID tag at the start of a Morgen description.
+ * Both the tag with and without a following space are recognized.
+ *
+ * @param {string} description - The description of the Morgen event.
+ * @returns {{ pageId: string | null, description: string }} - The tagged page ID, if any, and the description without the tag.
+ */
+export function readLinkTag(description: string): { pageId: string | null, description: string } {
+  const match = LINK_TAG_PATTERN.exec(description);
+  if (!match) {
+    return { pageId: null, description };
+  }
+  return { pageId: match[1], description: description.slice(match[0].length) };
+}
+
+/**
+ * Puts the Notion page ID tag in front of a description.
+ *
+ * @param {string} description - The description without a tag.
+ * @param {string} pageId - The ID of the linked Notion page.
+ * @returns {string} - The tagged description.
+ */
+export function addLinkTag(description: string, pageId: string): string {
+  return `#PAGEID:${pageId}# ${description}`;
+}
@@ -0,0 +1,196 @@
+/**
+ * Lock file that keeps two instances on one machine from syncing the same Notion database and Morgen calendar.
+ * The lock is a file created exclusively in the temporary directory, named after the synced pair and holding the
+ * process ID of its owner. A lock whose owner is no longer running is stale and taken over.
+ */
+
+import { promises as fs } from "fs";
+import { createHash, randomUUID } from "crypto";
+import * as os from "os";
+import * as path from "path";
+
+// a lock file that can't be read yet may be in the middle of being written by its owner
+const UNREADABLE_LOCK_GRACE_MS = 5000;
+
+// Lock types
+export type SyncLock = {
+  path: string;
+  release(): Promise<void>;
+}
+
+type LockOwner = {
+  pid: number;
+  hostname: string;
+  key: string;
+  acquiredAt: string;
+}
+
+/**
+ * The lock is held by another running instance.
+ */
+export class LockError extends Error {
+  constructor(message: string, readonly lockPath: string) {
+    super(message);
+    this.name = "LockError";
+  }
+}
+
+/**
+ * Returns the path of the lock file for a synced pair, configurable through the SYNC_LOCK_PATH environment variable.
+ *
+ * @param {string} key - What the lock protects, e.g. the database ID and the calendar.
+ * @returns {string} - The absolute path of the lock file.
+ */
+export function getLockPath(key: string): string {
+  const hash = createHash("sha256").update(key).digest("hex").slice(0, 16);
+  return path.resolve(process.env.SYNC_LOCK_PATH || path.join(os.tmpdir(), `morgennotion-${hash}.lock`));
+}
+
+/**
+ * Acquires the lock for a synced pair, taking over a stale lock left by a process that is no longer running.
+ *
+ * @param {string} key - What the lock protects.
+ * @param {string} [lockPath] - The path of the lock file.
+ * @returns {Promise<SyncLock>} - The acquired lock.
+ * @throws {LockError} - If another running instance holds the lock.
+ */
+export async function acquireLock(key: string, lockPath = getLockPath(key)): Promise<SyncLock> {
+  const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), key, acquiredAt: new Date().toISOString() };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await fs.mkdir(path.dirname(lockPath), { recursive: true });
+      const handle = await fs.open(lockPath, "wx");
+      try {
+        await handle.writeFile(JSON.stringify(owner, null, 2), "utf8");
+      } finally {
+        await handle.close();
+      }
+      return { path: lockPath, release: () => releaseLock(lockPath, owner) };
+    } catch (error) {
+      if (error.code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    const holder = await readLockOwner(lockPath);
+    if (attempt > 1 || !(await isStale(lockPath, holder)) || !(await removeStaleLock(lockPath, holder))) {
+      const current = await readLockOwner(lockPath) ?? holder;
+      const description = current ? `process ${current.pid} on ${current.hostname} since ${current.acquiredAt}` : "another process";
+      throw new LockError(`Another instance is already syncing (${description}). ` +
+        `Stop it first, or delete ${lockPath} if it is not running.`, lockPath);
+    }
+    console.warn(`Took over the stale lock of process ${holder?.pid ?? "unknown"} in ${lockPath}`);
+  }
+}
+
+/**
+ * Moves a stale lock out of the way, unless another process has taken it over in the meantime.
+ * The file is renamed to a name of its own first, so of several processes that found the same stale lock
+ * only one moves it; the moved file is then checked to still be the stale one, and put back if it is not.
+ *
+ * @param {string} lockPath - The path of the lock file.
+ * @param {LockOwner | null} staleHolder - The owner of the stale lock, as read before.
+ * @returns {Promise<boolean>} - Returns true if the lock file is gone, false if another process holds the lock now.
+ */
+async function removeStaleLock(lockPath: string, staleHolder: LockOwner | null): Promise<boolean> {
+  if (!isSameOwner(await readLockOwner(lockPath), staleHolder)) {
+    return false;
+  }
+
+  const tombstonePath = `${lockPath}.${process.pid}.${randomUUID()}.stale`;
+  try {
+    await fs.rename(lockPath, tombstonePath);
+  } catch (error) {
+    // another process moved the stale lock first; trying to create the lock again settles who gets it
+    if (error.code === "ENOENT") {
+      return true;
+    }
+    throw error;
+  }
+
+  try {
+    if (isSameOwner(await readLockOwner(tombstonePath), staleHolder)) {
+      return true;
+    }
+    // the lock was taken over just before the rename; put it back unless yet another lock was created
+    try {
+      await fs.link(tombstonePath, lockPath);
+    } catch (error) {
+      if (error.code !== "EEXIST") {
+        throw error;
+      }
+    }
+    return false;
+  } finally {
+    await fs.rm(tombstonePath, { force: true });
+  }
+}
+
+/**
+ * Removes the lock file if it still belongs to the given owner.
+ *
+ * @param {string} lockPath - The path of the lock file.
+ * @param {LockOwner} owner - The owner that acquired the lock.
+ */
+async function releaseLock(lockPath: string, owner: LockOwner) {
+  if (isSameOwner(await readLockOwner(lockPath), owner)) {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+function isSameOwner(a: LockOwner | null, b: LockOwner | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.pid === b.pid && a.hostname === b.hostname && a.acquiredAt === b.acquiredAt;
+}
+
+/**
+ * Reads the owner of a lock file.
+ *
+ * @param {string} lockPath - The path of the lock file.
+ * @returns {Promise<LockOwner | null>} - The owner, or null if the file is missing or unreadable.
+ */
+async function readLockOwner(lockPath: string): Promise<LockOwner | null> {
+  try {
+    const owner = JSON.parse(await fs.readFile(lockPath, "utf8"));
+    return typeof owner?.pid === "number" ? owner as LockOwner : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a lock was left behind by a process that is no longer running.
+ * Locks of other machines (on a shared directory) can't be checked and are never stale.
+ *
+ * @param {string} lockPath - The path of the lock file.
+ * @param {LockOwner | null} holder - The owner read from the lock file.
+ * @returns {Promise<boolean>} - Returns true if the lock can be taken over.
+ */
+async function isStale(lockPath: string, holder: LockOwner | null): Promise<boolean> {
+  if (!holder) {
+    try {
+      const { mtimeMs } = await fs.stat(lockPath);
+      return Date.now() - mtimeMs > UNREADABLE_LOCK_GRACE_MS;
+    } catch (error) {
+      // the lock was released in the meantime
+      return error.code === "ENOENT";
+    }
+  }
+  if (holder.hostname !== os.hostname()) {
+    return false;
+  }
+  return !isProcessRunning(holder.pid);
+}
+
+function isProcessRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to another user
+    return error.code === "EPERM";
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Matching of unlinked Notion tasks with unlinked Morgen events that describe the same item.
+ * Each candidate pair gets a confidence score from the similarity of the titles and the closeness of the dates.
+ * Clear winners are linked automatically; close calls are left for the user to confirm.
+ */
+
+import { DateTime } from "luxon";
+import { UniversalTaskEvent } from "./types";
+
+// Matching types
+export type MatchingConfig = {
+  enabled: boolean;
+  // candidates scoring at least this are linked automatically, unless another candidate comes close
+  autoLinkScore: number;
+  // candidates scoring at least this are listed for confirmation, and neither side is created on the other platform
+  minScore: number;
+  // timed items further apart than this never match
+  maxHoursApart: number;
+}
+
+export type MatchCandidate = {
+  notion: UniversalTaskEvent;
+  morgen: UniversalTaskEvent;
+  score: number;
+}
+
+// an automatic link needs this much lead over every other candidate for either side
+const AMBIGUITY_MARGIN = 0.1;
+const TITLE_WEIGHT = 0.7;
+const DATE_WEIGHT = 0.3;
+
+/**
+ * Finds the Morgen event for each Notion task that most likely describes the same item.
+ * Candidates are taken from the highest score down; one is confident if it reaches the auto-link score and
+ * beats every other remaining candidate for its task and its event by the ambiguity margin.
+ * The remaining candidates above the minimum score are ambiguous.
+ *
+ * @param {UniversalTaskEvent[]} notionTasks - The unlinked Notion tasks.
+ * @param {UniversalTaskEvent[]} morgenEvents - The unlinked Morgen events.
+ * @param {MatchingConfig} config - The matching configuration.
+ * @returns {{ confident: MatchCandidate[], ambiguous: MatchCandidate[] }} - The matches to link and the ones to confirm.
+ */
+export function findMatches(notionTasks: UniversalTaskEvent[], morgenEvents: UniversalTaskEvent[], config: MatchingConfig):
+  { confident: MatchCandidate[], ambiguous: MatchCandidate[] } {
+  const candidates: MatchCandidate[] = [];
+  for (const notion of notionTasks) {
+    for (const morgen of morgenEvents) {
+      const score = scoreMatch(notion, morgen, config);
+      if (score >= config.minScore) {
+        candidates.push({ notion, morgen, score });
+      }
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const confident: MatchCandidate[] = [];
+  const matched = new Set<UniversalTaskEvent>();
+  const isOpen = (candidate: MatchCandidate) => !matched.has(candidate.notion) && !matched.has(candidate.morgen);
+
+  for (const candidate of candidates) {
+    if (!isOpen(candidate) || candidate.score < config.autoLinkScore) {
+      continue;
+    }
+    const bestRivalScore = Math.max(0, ...candidates
+      .filter(rival => rival !== candidate && isOpen(rival) && (rival.notion === candidate.notion || rival.morgen === candidate.morgen))
+      .map(rival => rival.score));
+    if (candidate.score - bestRivalScore >= AMBIGUITY_MARGIN) {
+      confident.push(candidate);
+      matched.add(candidate.notion);
+      matched.add(candidate.morgen);
+    }
+  }
+
+  return { confident, ambiguous: candidates.filter(isOpen) };
+}
+
+/**
+ * Scores how likely a Notion task and a Morgen event describe the same item, from 0 to 1.
+ * Items whose dates are too far apart score 0, whatever their titles.
+ *
+ * @param {UniversalTaskEvent} notion - The Notion task.
+ * @param {UniversalTaskEvent} morgen - The Morgen event.
+ * @param {MatchingConfig} config - The matching configuration.
+ * @returns {number} - The confidence score.
+ */
+export function scoreMatch(notion: UniversalTaskEvent, morgen: UniversalTaskEvent, config: MatchingConfig): number {
+  const dateScore = dateCloseness(notion.date, morgen.date, config.maxHoursApart);
+  if (dateScore === 0) {
+    return 0;
+  }
+  return TITLE_WEIGHT * titleSimilarity(notion.title, morgen.title) + DATE_WEIGHT * dateScore;
+}
+
+/**
+ * Compares two titles by the character pairs they share (the Sørensen–Dice coefficient),
+ * ignoring case, accents, punctuation and spacing.
+ *
+ * @param {string} a - The first title.
+ * @param {string} b - The second title.
+ * @returns {number} - The similarity from 0 (nothing in common) to 1 (the same).
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const first = normalizeTitle(a);
+  const second = normalizeTitle(b);
+  if (first === second) {
+    return 1;
+  }
+  if (first.length < 2 || second.length < 2) {
+    return 0;
+  }
+
+  const firstPairs = new Map<string, number>();
+  for (let index = 0; index < first.length - 1; index++) {
+    const pair = first.slice(index, index + 2);
+    firstPairs.set(pair, (firstPairs.get(pair) ?? 0) + 1);
+  }
+
+  let shared = 0;
+  for (let index = 0; index < second.length - 1; index++) {
+    const pair = second.slice(index, index + 2);
+    const count = firstPairs.get(pair) ?? 0;
+    if (count > 0) {
+      firstPairs.set(pair, count - 1);
+      shared++;
+    }
+  }
+  return (2 * shared) / (first.length + second.length - 2);
+}
+
+/**
+ * Scores how close two dates are: 1 for the same time, falling to 0 at the given distance.
+ * An all-day date and a timed date on the same day score 0.8.
+ */
+function dateCloseness(a: string, b: string, maxHoursApart: number): number {
+  const aHasTime = a.includes('T');
+  const bHasTime = b.includes('T');
+  if (!aHasTime || !bHasTime) {
+    if (a.split('T')[0] !== b.split('T')[0]) {
+      return 0;
+    }
+    return aHasTime === bHasTime ? 1 : 0.8;
+  }
+
+  const hoursApart = Math.abs(DateTime.fromISO(a).diff(DateTime.fromISO(b), "hours").hours);
+  return Math.max(0, 1 - hoursApart / maxHoursApart);
+}
+
+function normalizeTitle(title: string): string {
+  return title.normalize("NFKD").replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+}
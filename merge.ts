@@ -0,0 +1,157 @@
+/**
+ * Field-level three-way merge for event pairs.
+ * The previously synced pair is used as the common base, so edits made to different fields
+ * on Notion and Morgen between two polls are both kept instead of one overwriting the other.
+ */
+
+import { DateTime, Duration } from "luxon";
+import { EventPair, UniversalTaskEvent } from "./types";
+import { haveSameText } from "./richtext";
+
+export type ConflictPolicy = "notion" | "morgen" | "newest" | "manual";
+
+export type MergeField = "title" | "description" | "date" | "duration";
+
+export const MERGE_FIELDS: MergeField[] = ["title", "description", "date", "duration"];
+
+export type FieldConflict = {
+  field: MergeField;
+  base: string;
+  notion: string;
+  morgen: string;
+  resolution: "notion" | "morgen" | "manual";
+}
+
+export type MergeResult = {
+  notion: Pick<UniversalTaskEvent, MergeField>;
+  morgen: Pick<UniversalTaskEvent, MergeField>;
+  updateNotion: boolean;
+  updateMorgen: boolean;
+  conflicts: FieldConflict[];
+}
+
+/**
+ * Merges the Notion and Morgen sides of a pair field by field against the last synced base.
+ * A field changed on only one side takes that side's value. A field changed on both sides
+ * to different values is a conflict and is settled by the given policy; with the "manual"
+ * policy both sides keep their value and the conflict is only reported.
+ * Fields that are only synced from Notion to Morgen always take the Notion value.
+ *
+ * @param {EventPair} current - The current pair, which must have both a Notion and a Morgen side.
+ * @param {EventPair} base - The pair as it was after the last successful sync.
+ * @param {ConflictPolicy} policy - How to settle fields that changed on both sides.
+ * @param {MergeField[]} [notionOnlyFields] - The fields that are only synced from Notion to Morgen.
+ * @returns {MergeResult} - The merged field values for each side and which sides need updating.
+ */
+export function mergeEventPair(current: EventPair, base: EventPair, policy: ConflictPolicy, notionOnlyFields: MergeField[] = []): MergeResult {
+  const notion = current.notion!;
+  const morgen = current.morgen!;
+  const notionBase = base.notion ?? base.morgen ?? notion;
+  const morgenBase = base.morgen ?? base.notion ?? morgen;
+
+  const notionMerged = {} as Pick<UniversalTaskEvent, MergeField>;
+  const morgenMerged = {} as Pick<UniversalTaskEvent, MergeField>;
+  const conflicts: FieldConflict[] = [];
+  let updateNotion = false;
+  let updateMorgen = false;
+
+  for (const field of MERGE_FIELDS) {
+    const notionChanged = !fieldsAreEqual(field, notion[field], notionBase[field]);
+    const morgenChanged = !fieldsAreEqual(field, morgen[field], morgenBase[field]);
+    const sidesEqual = fieldsAreEqual(field, notion[field], morgen[field]);
+
+    let winner: "notion" | "morgen" | "manual";
+    if (sidesEqual || notionOnlyFields.includes(field)) {
+      winner = "notion";
+    } else if (notionChanged && !morgenChanged) {
+      winner = "notion";
+    } else if (morgenChanged && !notionChanged) {
+      winner = "morgen";
+    } else {
+      // both sides changed (or neither did, but they still disagree)
+      winner = resolveConflict(policy, notion, morgen);
+      conflicts.push({
+        field,
+        base: notionBase[field],
+        notion: notion[field],
+        morgen: morgen[field],
+        resolution: winner,
+      });
+    }
+
+    if (winner === "manual") {
+      notionMerged[field] = notion[field];
+      morgenMerged[field] = morgen[field];
+      continue;
+    }
+
+    notionMerged[field] = morgenMerged[field] = winner === "notion" ? notion[field] : morgen[field];
+    if (!sidesEqual) {
+      if (winner === "notion") {
+        updateMorgen = true;
+      } else {
+        updateNotion = true;
+      }
+    }
+  }
+
+  return { notion: notionMerged, morgen: morgenMerged, updateNotion, updateMorgen, conflicts };
+}
+
+/**
+ * Picks the winning side of a conflicting field according to the conflict policy.
+ *
+ * @param {ConflictPolicy} policy - The configured conflict policy.
+ * @param {UniversalTaskEvent} notion - The Notion side of the pair.
+ * @param {UniversalTaskEvent} morgen - The Morgen side of the pair.
+ * @returns {"notion" | "morgen" | "manual"} - The side whose value wins, or "manual" to leave both untouched.
+ */
+function resolveConflict(policy: ConflictPolicy, notion: UniversalTaskEvent, morgen: UniversalTaskEvent): "notion" | "morgen" | "manual" {
+  switch (policy) {
+    case "notion":
+      return "notion";
+    case "morgen":
+      return "morgen";
+    case "manual":
+      return "manual";
+    case "newest":
+    default:
+      return morgen.lastUpdate > notion.lastUpdate ? "morgen" : "notion";
+  }
+}
+
+/**
+ * Compares a single field of two events.
+ * Descriptions ignore surrounding whitespace, dates compare as instants when both carry a time,
+ * so the same moment written in different zones is not treated as a change, and durations compare by length.
+ *
+ * @param {MergeField} field - The field being compared.
+ * @param {string} a - The first value.
+ * @param {string} b - The second value.
+ * @returns {boolean} - Returns true if the values are considered equal.
+ */
+export function fieldsAreEqual(field: MergeField, a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  switch (field) {
+    case "description":
+      return haveSameText(a, b);
+    case "date": {
+      const aHasTime = a.includes('T');
+      const bHasTime = b.includes('T');
+      if (aHasTime && bHasTime) {
+        return DateTime.fromISO(a).toMillis() === DateTime.fromISO(b).toMillis();
+      }
+      return a.split('T')[0] === b.split('T')[0];
+    }
+    case "duration": {
+      const aDuration = Duration.fromISO(a ?? '');
+      const bDuration = Duration.fromISO(b ?? '');
+      return aDuration.isValid && bDuration.isValid && aDuration.toMillis() === bDuration.toMillis();
+    }
+    default:
+      return false;
+  }
+}
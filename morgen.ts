@@ -0,0 +1,239 @@
+/**
+ * Typed client for the Morgen v3 events and calendars API.
+ * Requests go through the shared request layer, and responses are validated before they are used,
+ * so an unexpected payload surfaces as a clear MorgenResponseError instead of a failure further down.
+ */
+
+import axios from "axios";
+import { callApi } from "./request";
+
+export type SeriesUpdateMode = "single" | "future" | "all";
+
+// Morgen API models
+export type MorgenApiEvent = {
+  id: string;
+  accountId?: string;
+  calendarId?: string;
+  title?: string;
+  description?: string | null;
+  start: string;
+  duration?: string;
+  timeZone?: string | null;
+  showWithoutTime?: boolean;
+  updated?: string;
+  // set on the occurrences of a recurring event: the series' ID and the occurrence's original start
+  masterEventId?: string;
+  recurrenceId?: string | null;
+  participants?: { [participantId: string]: MorgenParticipant };
+}
+
+export type MorgenParticipant = {
+  name?: string;
+  email?: string;
+  participationStatus?: "needs-action" | "accepted" | "declined" | "tentative" | "delegated";
+}
+
+export type MorgenEventFields = {
+  title?: string;
+  description?: string;
+  start?: string;
+  duration?: string;
+  timeZone?: string;
+  showWithoutTime?: boolean;
+}
+
+export type MorgenCreateEventRequest = MorgenEventFields & {
+  title: string;
+  start: string;
+  duration: string;
+  accountId?: string;
+  calendarId?: string;
+}
+
+export type MorgenUpdateEventRequest = MorgenEventFields & {
+  id: string;
+  recurrenceId?: string;
+  accountId?: string;
+  calendarId?: string;
+}
+
+export type MorgenDeleteEventRequest = {
+  id: string;
+  recurrenceId?: string;
+  accountId?: string;
+  calendarId?: string;
+}
+
+export type MorgenCalendar = {
+  accountId: string;
+  calendarId: string;
+}
+
+export type MorgenApiCalendar = {
+  id: string;
+  accountId: string;
+  name?: string;
+}
+
+export type MorgenCreatedEvent = {
+  id: string;
+  accountId?: string;
+  calendarId?: string;
+}
+
+export type MorgenClientOptions = {
+  apiKey: string;
+  accountId: string;
+  calendarId: string;
+  baseUrl: string;
+}
+
+export type MorgenClient = {
+  listEvents(start: string, end: string, calendarIds?: string[], accountId?: string): Promise<MorgenApiEvent[]>;
+  createEvent(request: MorgenCreateEventRequest): Promise<MorgenCreatedEvent>;
+  updateEvent(request: MorgenUpdateEventRequest, seriesUpdateMode?: SeriesUpdateMode): Promise<void>;
+  deleteEvent(request: MorgenDeleteEventRequest, seriesUpdateMode?: SeriesUpdateMode): Promise<void>;
+  listCalendars(): Promise<MorgenApiCalendar[]>;
+}
+
+/**
+ * A Morgen response that does not have the expected shape.
+ */
+export class MorgenResponseError extends Error {
+  constructor(message: string, readonly body: unknown) {
+    super(message);
+    this.name = "MorgenResponseError";
+  }
+}
+
+/**
+ * Creates a Morgen client for one account and default calendar.
+ * The account and calendar can be overridden per request.
+ *
+ * @param {MorgenClientOptions} options - The API key, default account and calendar, and the base URL of the API.
+ * @returns {MorgenClient} - The Morgen client.
+ */
+export function createMorgenClient(options: MorgenClientOptions): MorgenClient {
+  const http = axios.create({
+    baseURL: options.baseUrl.replace(/\/+$/, ''),
+    headers: {
+      "Content-Type": "application/json",
+      "accept": "application/json",
+      "Authorization": `ApiKey ${options.apiKey}`
+    }
+  });
+
+  const target = (request: { accountId?: string, calendarId?: string }) => ({
+    accountId: request.accountId ?? options.accountId,
+    calendarId: request.calendarId ?? options.calendarId,
+  });
+
+  return {
+    async listEvents(start, end, calendarIds = [options.calendarId], accountId = options.accountId) {
+      const response = await callApi("morgen", () => http.get("/v3/events/list", {
+        params: { accountId, calendarIds: calendarIds.join(','), start, end }
+      }), { idempotent: true });
+      return parseEventListResponse(response.data);
+    },
+
+    async createEvent(request) {
+      const response = await callApi("morgen", () => http.post("/v3/events/create", {
+        ...request,
+        ...target(request),
+      }), { idempotent: false });
+      return parseCreateEventResponse(response.data);
+    },
+
+    async updateEvent(request, seriesUpdateMode = "single") {
+      await callApi("morgen", () => http.post("/v3/events/update", {
+        ...request,
+        ...target(request),
+      }, { params: { seriesUpdateMode } }), { idempotent: true });
+    },
+
+    async deleteEvent(request, seriesUpdateMode = "single") {
+      let attempts = 0;
+      await callApi("morgen", async () => {
+        attempts++;
+        try {
+          await http.post("/v3/events/delete", {
+            id: request.id,
+            recurrenceId: request.recurrenceId,
+            ...target(request),
+          }, { params: { seriesUpdateMode } });
+        } catch (error) {
+          // a retry finds the event gone if an earlier attempt deleted it and only its response was lost
+          if (attempts > 1 && error.response?.status === 404) {
+            return;
+          }
+          throw error;
+        }
+      }, { idempotent: true });
+    },
+
+    async listCalendars() {
+      const response = await callApi("morgen", () => http.get("/v3/calendars/list"), { idempotent: true });
+      return parseCalendarListResponse(response.data);
+    },
+  };
+}
+
+/**
+ * Validates the body of an events/list response and returns its events.
+ *
+ * @param {unknown} body - The response body.
+ * @returns {MorgenApiEvent[]} - The listed events.
+ * @throws {MorgenResponseError} - If the body or one of its events does not have the expected shape.
+ */
+export function parseEventListResponse(body: unknown): MorgenApiEvent[] {
+  const events = (body as any)?.data?.events;
+  if (!Array.isArray(events)) {
+    throw new MorgenResponseError('Morgen events/list response has no data.events array', body);
+  }
+
+  events.forEach((event, index) => {
+    if (typeof event?.id !== "string" || !event.id) {
+      throw new MorgenResponseError(`Morgen event at index ${index} has no id`, body);
+    }
+    if (typeof event.start !== "string") {
+      throw new MorgenResponseError(`Morgen event ${event.id} has no start`, body);
+    }
+  });
+  return events as MorgenApiEvent[];
+}
+
+/**
+ * Validates the body of a calendars/list response and returns the calendars of all connected accounts.
+ *
+ * @param {unknown} body - The response body.
+ * @returns {MorgenApiCalendar[]} - The listed calendars.
+ * @throws {MorgenResponseError} - If the body or one of its calendars does not have the expected shape.
+ */
+export function parseCalendarListResponse(body: unknown): MorgenApiCalendar[] {
+  const calendars = (body as any)?.data?.calendars;
+  if (!Array.isArray(calendars)) {
+    throw new MorgenResponseError('Morgen calendars/list response has no data.calendars array', body);
+  }
+
+  calendars.forEach((calendar, index) => {
+    if (typeof calendar?.id !== "string" || typeof calendar.accountId !== "string") {
+      throw new MorgenResponseError(`Morgen calendar at index ${index} has no id or accountId`, body);
+    }
+  });
+  return calendars as MorgenApiCalendar[];
+}
+
+/**
+ * Validates the body of an events/create response and returns the created event.
+ *
+ * @param {unknown} body - The response body.
+ * @returns {MorgenCreatedEvent} - The ID (and account and calendar) of the created event.
+ * @throws {MorgenResponseError} - If the body does not contain the created event's ID.
+ */
+export function parseCreateEventResponse(body: unknown): MorgenCreatedEvent {
+  const event = (body as any)?.data?.event;
+  if (typeof event?.id !== "string" || !event.id) {
+    throw new MorgenResponseError('Morgen events/create response has no data.event.id', body);
+  }
+  return event as MorgenCreatedEvent;
+}
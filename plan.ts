@@ -0,0 +1,166 @@
+/**
+ * Sync plans: a structured record of every create, update and delete a sync cycle performs.
+ * In dry-run mode the plan is all that is produced and no requests are sent, so it can be
+ * reviewed (as text or JSON) before the script is pointed at a real workspace.
+ */
+
+export type SyncTarget = "notion" | "morgen";
+
+export type FieldChange = {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export type PlannedAction = {
+  type: "create" | "update" | "delete";
+  target: SyncTarget;
+  id: string | null;
+  title: string;
+  changes: FieldChange[];
+  error?: string;
+}
+
+export type MatchSuggestion = {
+  notionPageId: string;
+  notionTitle: string;
+  morgenEventId: string;
+  morgenTitle: string;
+  score: number;
+}
+
+// a field changed on both sides that the "manual" conflict policy leaves for the user to settle
+export type PlanConflict = {
+  notionPageId: string;
+  morgenEventId: string;
+  title: string;
+  field: string;
+  base: string;
+  notion: string;
+  morgen: string;
+}
+
+export type SyncPlan = {
+  dryRun: boolean;
+  createdAt: string;
+  actions: PlannedAction[];
+  held: PlannedAction[];
+  heldReason?: string;
+  // possible matches between unlinked items; nothing is created for them until they are linked or released
+  matches: MatchSuggestion[];
+  conflicts: PlanConflict[];
+}
+
+/**
+ * Creates an empty plan for a sync cycle.
+ *
+ * @param {boolean} dryRun - Whether the actions in this plan are only planned and not executed.
+ * @returns {SyncPlan} - An empty sync plan.
+ */
+export function createSyncPlan(dryRun: boolean): SyncPlan {
+  return {
+    dryRun,
+    createdAt: new Date().toISOString(),
+    actions: [],
+    held: [],
+    matches: [],
+    conflicts: [],
+  };
+}
+
+/**
+ * Returns the actions of a plan that were attempted and failed.
+ *
+ * @param {SyncPlan} plan - The plan to check.
+ * @returns {PlannedAction[]} - The failed actions.
+ */
+export function getFailedActions(plan: SyncPlan): PlannedAction[] {
+  return plan.actions.filter(action => action.error);
+}
+
+/**
+ * Computes the changes between the old and new values of a set of fields.
+ * Fields whose values are equal according to the given comparison are left out.
+ *
+ * @param {{ [field: string]: string }} from - The current values.
+ * @param {{ [field: string]: string }} to - The values after the update.
+ * @param {(field: string, a: string, b: string) => boolean} [isEqual] - The comparison used for each field.
+ * @returns {FieldChange[]} - The list of changed fields.
+ */
+export function diffFields(
+  from: { [field: string]: string },
+  to: { [field: string]: string },
+  isEqual: (field: string, a: string, b: string) => boolean = (_field, a, b) => a === b
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  for (const field of Object.keys(to)) {
+    if (!isEqual(field, from[field] ?? '', to[field] ?? '')) {
+      changes.push({ field, from: from[field] ?? '', to: to[field] ?? '' });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Formats a sync plan as human-readable text.
+ *
+ * @param {SyncPlan} plan - The plan to format.
+ * @returns {string} - The formatted plan.
+ */
+export function formatPlanAsText(plan: SyncPlan): string {
+  const header = `Sync plan${plan.dryRun ? " (dry run)" : ""}: ${plan.actions.length} action${plan.actions.length === 1 ? "" : "s"}`;
+  const lines = [header];
+
+  const symbols = { create: "+", update: "~", delete: "-" };
+  const targetNames = { notion: "Notion task", morgen: "Morgen event" };
+
+  for (const action of plan.actions) {
+    const id = action.id ? ` [${action.id}]` : "";
+    const failure = action.error ? ` (failed: ${action.error})` : "";
+    lines.push(`  ${symbols[action.type]} ${action.type} ${targetNames[action.target]} "${action.title}"${id}${failure}`);
+    for (const change of action.changes) {
+      if (action.type === "create") {
+        lines.push(`      ${change.field}: ${JSON.stringify(change.to)}`);
+      } else {
+        lines.push(`      ${change.field}: ${JSON.stringify(change.from)} -> ${JSON.stringify(change.to)}`);
+      }
+    }
+  }
+
+  if (plan.held.length) {
+    lines.push(`Held deletions: ${plan.heldReason}`);
+    lines.push(`  Run "sync --allow-mass-deletion" to carry them out.`);
+    for (const action of plan.held) {
+      lines.push(`  ${symbols[action.type]} ${action.type} ${targetNames[action.target]} "${action.title}" [${action.id}]`);
+    }
+  }
+
+  if (plan.matches.length) {
+    lines.push(`Possible matches to confirm:`);
+    lines.push(`  Run "link <pageId> <eventId>" for the right ones, then "sync --create-unmatched" to create the others.`);
+    for (const match of plan.matches) {
+      lines.push(`  ? Notion task "${match.notionTitle}" [${match.notionPageId}] = Morgen event "${match.morgenTitle}" [${match.morgenEventId}] (score ${match.score.toFixed(2)})`);
+    }
+  }
+
+  if (plan.conflicts.length) {
+    lines.push(`Conflicts to settle by hand:`);
+    lines.push(`  Edit the field on either side to the value to keep; the other side follows in the next cycle.`);
+    for (const conflict of plan.conflicts) {
+      lines.push(`  ! ${conflict.field} of "${conflict.title}" [${conflict.notionPageId} <-> ${conflict.morgenEventId}]: ` +
+        `Notion ${JSON.stringify(conflict.notion)}, Morgen ${JSON.stringify(conflict.morgen)} (was ${JSON.stringify(conflict.base)})`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Formats a sync plan as JSON.
+ *
+ * @param {SyncPlan} plan - The plan to format.
+ * @returns {string} - The plan as a JSON string.
+ */
+export function formatPlanAsJson(plan: SyncPlan): string {
+  return JSON.stringify(plan, null, 2);
+}
@@ -0,0 +1,291 @@
+/**
+ * Preflight checks that run before the sync starts.
+ * A missing environment variable, an invalid config value, a Notion database without one of the mapped properties
+ * or an unknown Morgen calendar would otherwise only show up as skipped tasks or errors deep inside a sync cycle.
+ * Every problem found here says what is wrong and how to fix it.
+ */
+
+import { Duration } from "luxon";
+import { NotionPropertyMapping, SyncConfig } from "./config";
+import { MorgenApiCalendar, MorgenCalendar } from "./morgen";
+
+// Preflight types
+export type PreflightSource = "environment" | "config" | "notion" | "morgen";
+
+export type PreflightProblem = {
+  source: PreflightSource;
+  message: string;
+}
+
+export type NotionPropertyType = "title" | "rich_text" | "date" | "select" | "status" | "last_edited_time" | "number";
+
+// a configured Morgen calendar, with the setting it comes from
+export type ExpectedCalendar = MorgenCalendar & {
+  setting: string;
+}
+
+export const REQUIRED_ENV_VARS: { [name: string]: string } = {
+  NOTION_KEY: "the secret of the Notion integration (Settings > Connections > Develop or manage integrations)",
+  NOTION_DATABASE_ID: "the ID of the task database, the 32 characters before \"?v=\" in its URL",
+  MORGEN_API_KEY: "an API key from the Morgen developer portal",
+  MORGEN_ACCOUNT_ID: "the ID of the Morgen account of the default calendar",
+  MORGEN_CALENDAR_ID: "the ID of the default Morgen calendar",
+};
+
+export const NOTION_PROPERTY_TYPES: { [field in keyof NotionPropertyMapping]-?: NotionPropertyType } = {
+  title: "title",
+  dueDate: "date",
+  description: "rich_text",
+  area: "select",
+  status: "status",
+  morgenEventId: "rich_text",
+  lastUpdate: "last_edited_time",
+  duration: "number",
+};
+
+// the names of the property types in the Notion interface
+export const NOTION_TYPE_NAMES: { [type in NotionPropertyType]: string } = {
+  title: "Title",
+  rich_text: "Text",
+  date: "Date",
+  select: "Select",
+  status: "Status",
+  last_edited_time: "Last edited time",
+  number: "Number",
+};
+
+const CONFLICT_POLICIES = ["notion", "morgen", "newest", "manual"];
+const RECURRING_EVENT_MODES = ["occurrence", "series"];
+const PLAN_FORMATS = ["text", "json"];
+const STATUS_ACTIONS = ["prefix", "move", "remove", "none"];
+
+/**
+ * Checks that every required environment variable is set.
+ *
+ * @param {NodeJS.ProcessEnv} [env] - The environment to check.
+ * @returns {PreflightProblem[]} - A problem for every missing variable.
+ */
+export function checkEnvironment(env: NodeJS.ProcessEnv = process.env): PreflightProblem[] {
+  return Object.keys(REQUIRED_ENV_VARS)
+    .filter(name => !env[name]?.trim())
+    .map(name => ({
+      source: "environment",
+      message: `${name} is not set. Set it in the environment or in .env to ${REQUIRED_ENV_VARS[name]}.`,
+    }));
+}
+
+/**
+ * Checks the config values that the JSON file can get wrong without failing to load:
+ * unknown option values, numbers out of range and incomplete calendar mappings.
+ *
+ * @param {SyncConfig} config - The loaded configuration.
+ * @returns {PreflightProblem[]} - A problem for every invalid value.
+ */
+export function checkConfig(config: SyncConfig): PreflightProblem[] {
+  const problems: PreflightProblem[] = [];
+  const report = (key: string, value: unknown, expected: string) => problems.push({
+    source: "config",
+    message: `${key} is ${JSON.stringify(value)}, but it must be ${expected}. Fix it in the config file.`,
+  });
+  const checkOption = (key: string, value: unknown, options: string[]) => {
+    if (!options.includes(value as string)) {
+      report(key, value, `one of ${options.map(option => `"${option}"`).join(", ")}`);
+    }
+  };
+  const checkNumber = (key: string, value: unknown, min: number, max = Infinity, integer = false) => {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+      const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+      report(key, value, `${integer ? "a whole number" : "a number"} ${range}`);
+    }
+  };
+
+  for (const field of Object.keys(NOTION_PROPERTY_TYPES) as (keyof NotionPropertyMapping)[]) {
+    const name = config.notion.properties[field];
+    // the duration property is optional
+    if (field === "duration" ? name !== undefined && typeof name !== "string" : typeof name !== "string" || !name) {
+      report(`notion.properties.${field}`, name, "the name of a Notion property");
+    }
+  }
+  if (!Duration.fromISO(config.notion.defaults.duration).isValid) {
+    report("notion.defaults.duration", config.notion.defaults.duration, "an ISO 8601 duration such as \"PT1H\"");
+  }
+
+  checkOption("sync.conflictPolicy", config.sync.conflictPolicy, CONFLICT_POLICIES);
+  checkOption("sync.recurringEvents", config.sync.recurringEvents, RECURRING_EVENT_MODES);
+  checkOption("sync.planFormat", config.sync.planFormat, PLAN_FORMATS);
+  checkNumber("sync.lookBehindDays", config.sync.lookBehindDays, 0, Infinity, true);
+  checkNumber("sync.lookAheadDays", config.sync.lookAheadDays, 0, Infinity, true);
+  checkNumber("sync.moveLookupDays", config.sync.moveLookupDays, 0, Infinity, true);
+  checkNumber("sync.pollIntervalSeconds", config.sync.pollIntervalSeconds, 1);
+  checkNumber("sync.jitterSeconds", config.sync.jitterSeconds, 0);
+  checkNumber("sync.fullSyncIntervalMinutes", config.sync.fullSyncIntervalMinutes, 1);
+
+  checkNumber("safety.maxDeletions", config.safety.maxDeletions, 0, Infinity, true);
+  checkNumber("safety.maxDeletionPercent", config.safety.maxDeletionPercent, 0, 100);
+
+  checkNumber("requests.rateLimits.notion", config.requests.rateLimits.notion, 0.01);
+  checkNumber("requests.rateLimits.morgen", config.requests.rateLimits.morgen, 0.01);
+  checkNumber("requests.maxRetries", config.requests.maxRetries, 0, Infinity, true);
+  checkNumber("requests.initialBackoffMs", config.requests.initialBackoffMs, 0);
+  checkNumber("requests.maxBackoffMs", config.requests.maxBackoffMs, 0);
+
+  for (const notionStatus of Object.keys(config.status.notionToMorgen)) {
+    checkOption(`status.notionToMorgen.${notionStatus}`, config.status.notionToMorgen[notionStatus], STATUS_ACTIONS);
+    if (config.status.enabled && config.status.notionToMorgen[notionStatus] === "move" && !config.status.doneCalendarId) {
+      report("status.doneCalendarId", config.status.doneCalendarId, `set, because the status "${notionStatus}" moves events to the done calendar`);
+    }
+  }
+
+  checkNumber("matching.minScore", config.matching.minScore, 0, 1);
+  checkNumber("matching.autoLinkScore", config.matching.autoLinkScore, config.matching.minScore, 1);
+  checkNumber("matching.maxHoursApart", config.matching.maxHoursApart, 0.01);
+
+  for (const area of Object.keys(config.morgen.calendars)) {
+    const calendar = config.morgen.calendars[area];
+    if (typeof calendar?.accountId !== "string" || !calendar.accountId || typeof calendar.calendarId !== "string" || !calendar.calendarId) {
+      report(`morgen.calendars.${area}`, calendar, "an object with the accountId and calendarId of a Morgen calendar");
+    }
+  }
+
+  checkNumber("backfill.pageDays", config.backfill.pageDays, 1, Infinity, true);
+  checkNumber("webhooks.port", config.webhooks.port, 0, 65535, true);
+  checkNumber("webhooks.pollIntervalSeconds", config.webhooks.pollIntervalSeconds, 1);
+  checkNumber("webhooks.debounceMs", config.webhooks.debounceMs, 0);
+
+  return problems;
+}
+
+/**
+ * Checks that the Notion database has every mapped property with the type the sync reads and writes,
+ * and that the statuses the sync sets are options of the Status property. Unlike select options,
+ * status options cannot be created through the API.
+ *
+ * @param {{ [name: string]: any }} properties - The properties of the retrieved database, by name.
+ * @param {SyncConfig} config - The loaded configuration.
+ * @returns {PreflightProblem[]} - A problem for every missing or mistyped property and unknown status.
+ */
+export function checkDatabaseSchema(properties: { [name: string]: any }, config: SyncConfig): PreflightProblem[] {
+  const problems: PreflightProblem[] = [];
+
+  for (const field of Object.keys(NOTION_PROPERTY_TYPES) as (keyof NotionPropertyMapping)[]) {
+    const name = config.notion.properties[field];
+    if (!name) {
+      continue;
+    }
+    const expectedType = NOTION_PROPERTY_TYPES[field];
+    const property = properties[name];
+    if (!property) {
+      problems.push({
+        source: "notion",
+        message: `The Notion database has no "${name}" property. Run "setup" or add a ${NOTION_TYPE_NAMES[expectedType]} property ` +
+          `named "${name}", or set notion.properties.${field} to the name of an existing one.`,
+      });
+    } else if (property.type !== expectedType) {
+      problems.push({
+        source: "notion",
+        message: `The Notion property "${name}" is a ${NOTION_TYPE_NAMES[property.type] ?? property.type} property, but the sync needs ` +
+          `a ${NOTION_TYPE_NAMES[expectedType]} property. Change its type in Notion, or set notion.properties.${field} to another property.`,
+      });
+    }
+  }
+
+  const statusProperty = properties[config.notion.properties.status];
+  if (statusProperty?.type === "status") {
+    const options = new Set<string>((statusProperty.status?.options ?? []).map(option => option.name));
+    const requiredStatuses: { [status: string]: string } = { [config.notion.defaults.status]: "notion.defaults.status" };
+    if (config.status.enabled) {
+      for (const status of Object.keys(config.status.morgenToNotion)) {
+        const notionStatus = config.status.morgenToNotion[status];
+        if (notionStatus) {
+          requiredStatuses[notionStatus] = `status.morgenToNotion.${status}`;
+        }
+      }
+    }
+    for (const status of Object.keys(requiredStatuses)) {
+      if (!options.has(status)) {
+        problems.push({
+          source: "notion",
+          message: `"${status}" (${requiredStatuses[status]}) is not an option of the Notion property "${config.notion.properties.status}". ` +
+            `Add it to the property in Notion, or change the config to one of ${[...options].map(option => `"${option}"`).join(", ")}.`,
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Checks that every configured Morgen calendar is one of the calendars of the connected accounts.
+ *
+ * @param {MorgenApiCalendar[]} calendars - The calendars listed by Morgen.
+ * @param {ExpectedCalendar[]} expected - The configured calendars.
+ * @returns {PreflightProblem[]} - A problem for every calendar that was not found.
+ */
+export function checkMorgenCalendars(calendars: MorgenApiCalendar[], expected: ExpectedCalendar[]): PreflightProblem[] {
+  const problems: PreflightProblem[] = [];
+  const accountIds = new Set(calendars.map(calendar => calendar.accountId));
+
+  for (const calendar of expected) {
+    if (!accountIds.has(calendar.accountId)) {
+      problems.push({
+        source: "morgen",
+        message: `The Morgen account "${calendar.accountId}" (${calendar.setting}) is not connected to this API key. ` +
+          `Use one of ${[...accountIds].map(id => `"${id}"`).join(", ") || "no accounts"}, or connect the account in Morgen.`,
+      });
+    } else if (!calendars.some(found => found.accountId === calendar.accountId && found.id === calendar.calendarId)) {
+      problems.push({
+        source: "morgen",
+        message: `The Morgen calendar "${calendar.calendarId}" (${calendar.setting}) was not found in account "${calendar.accountId}". ` +
+          `Check the ID against the calendars listed by the Morgen API.`,
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Formats preflight problems as human-readable text.
+ *
+ * @param {PreflightProblem[]} problems - The problems to format.
+ * @returns {string} - The formatted problems.
+ */
+export function formatPreflightProblems(problems: PreflightProblem[]): string {
+  if (!problems.length) {
+    return "Preflight check passed.";
+  }
+  const lines = [`Preflight check found ${problems.length} problem${problems.length === 1 ? "" : "s"}:`];
+  for (const problem of problems) {
+    lines.push(`  [${problem.source}] ${problem.message}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Turns a failed request of a preflight check into an actionable message.
+ *
+ * @param {any} error - The error thrown by the request layer.
+ * @returns {PreflightProblem} - The problem to report.
+ */
+export function describeRequestError(error: any): PreflightProblem {
+  const status = error?.status ?? null;
+  if (error?.api === "notion") {
+    if (status === 401) {
+      return { source: "notion", message: "Notion rejected NOTION_KEY. Copy the secret of the integration again; it may have been regenerated." };
+    }
+    if (status === 400 || status === 404) {
+      return {
+        source: "notion",
+        message: "The Notion database in NOTION_DATABASE_ID was not found. Check the ID, and share the database with the integration " +
+          "(the \"...\" menu of the database > Connections).",
+      };
+    }
+    return { source: "notion", message: `Could not reach Notion: ${error.message}. Check the network connection and NOTION_API_URL, if set.` };
+  }
+
+  if (status === 401 || status === 403) {
+    return { source: "morgen", message: "Morgen rejected MORGEN_API_KEY. Create a new API key in the Morgen developer portal." };
+  }
+  return { source: "morgen", message: `Could not reach Morgen: ${error?.message}. Check the network connection and MORGEN_API_URL or morgen.baseUrl.` };
+}
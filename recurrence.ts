@@ -0,0 +1,109 @@
+/**
+ * Handling of recurring Morgen events.
+ * The events/list endpoint returns every occurrence of a series with the series' ID, so occurrences are either
+ * given their own ID (series ID plus the occurrence's original start) or collapsed into one event per series.
+ */
+
+import { DateTime } from "luxon";
+import { MorgenApiEvent, SeriesUpdateMode } from "./morgen";
+
+// Recurrence types
+export type RecurringEventMode = "occurrence" | "series";
+
+export type RecurringMorgenEvent = MorgenApiEvent & {
+  // true if the event stands for a whole series (in "series" mode)
+  isSeries: boolean;
+}
+
+export type MorgenEventReference = {
+  id: string;
+  recurrenceId?: string;
+  seriesUpdateMode: SeriesUpdateMode;
+}
+
+const OCCURRENCE_SEPARATOR = "@";
+// the original start of an occurrence, as Morgen formats it; IDs of other events may contain "@" too
+const RECURRENCE_ID_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+
+/**
+ * Gives every listed event a unique ID, depending on how recurring events are synchronized.
+ * In "occurrence" mode each occurrence keeps its own entry with an ID made of the series ID and its original start.
+ * In "series" mode the occurrences of a series are collapsed into one event with the series ID and the series' start.
+ * The list only holds the occurrences within the requested range, so the start is the earliest original start listed;
+ * a series synced before keeps its known earlier start while its occurrences stay at the same time of day,
+ * so the start doesn't move along with the sync window.
+ *
+ * @param {MorgenApiEvent[]} events - The events from the Morgen API.
+ * @param {RecurringEventMode} mode - How recurring events are synchronized.
+ * @param {{ [seriesId: string]: string }} [knownSeriesStarts] - The starts of series synced before, as ISO dates or date-times.
+ * @returns {RecurringMorgenEvent[]} - The events with unique IDs.
+ */
+export function resolveRecurringEvents(events: MorgenApiEvent[], mode: RecurringEventMode,
+  knownSeriesStarts: { [seriesId: string]: string } = {}): RecurringMorgenEvent[] {
+  const resolved: RecurringMorgenEvent[] = [];
+  const seriesIndex: { [seriesId: string]: number } = {};
+
+  for (const event of events) {
+    if (!event.recurrenceId) {
+      resolved.push({ ...event, isSeries: false });
+      continue;
+    }
+
+    const seriesId = event.masterEventId || event.id;
+    if (mode === "occurrence") {
+      resolved.push({ ...event, id: formatOccurrenceId(seriesId, event.recurrenceId), isSeries: false });
+      continue;
+    }
+
+    // an occurrence moved on its own doesn't move the series
+    const series: RecurringMorgenEvent = { ...event, id: seriesId, start: event.recurrenceId, recurrenceId: null, isSeries: true };
+    const index = seriesIndex[seriesId];
+    if (index === undefined) {
+      seriesIndex[seriesId] = resolved.push(series) - 1;
+    } else if (series.start < resolved[index].start) {
+      resolved[index] = series;
+    }
+  }
+
+  for (const seriesId of Object.keys(seriesIndex)) {
+    const series = resolved[seriesIndex[seriesId]];
+    const knownStart = knownSeriesStarts[seriesId] && DateTime.fromISO(knownSeriesStarts[seriesId], { zone: series.timeZone || "utc" })
+      .setZone(series.timeZone || "utc").toFormat("yyyy-MM-dd'T'HH:mm:ss");
+    if (knownStart && knownStart < series.start && knownStart.slice(10) === series.start.slice(10)) {
+      series.start = knownStart;
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Returns the ID of one occurrence of a series.
+ *
+ * @param {string} seriesId - The ID of the series.
+ * @param {string} recurrenceId - The original start of the occurrence.
+ * @returns {string} - The ID of the occurrence.
+ */
+export function formatOccurrenceId(seriesId: string, recurrenceId: string): string {
+  return `${seriesId}${OCCURRENCE_SEPARATOR}${recurrenceId}`;
+}
+
+/**
+ * Returns the reference to use in update and delete requests for an event ID.
+ * An occurrence is changed on its own ("single"); a series, as a whole ("all"). Only IDs made by formatOccurrenceId
+ * are split into series ID and recurrence ID; any other ID is used as it is.
+ *
+ * @param {string} eventId - The ID of the event, as returned by resolveRecurringEvents.
+ * @param {boolean} [isSeries] - Whether the ID stands for a whole series.
+ * @returns {MorgenEventReference} - The Morgen event ID, recurrence ID and series update mode.
+ */
+export function getEventReference(eventId: string, isSeries = false): MorgenEventReference {
+  const separatorIndex = eventId.lastIndexOf(OCCURRENCE_SEPARATOR);
+  if (separatorIndex > 0 && RECURRENCE_ID_PATTERN.test(eventId.slice(separatorIndex + 1))) {
+    return {
+      id: eventId.slice(0, separatorIndex),
+      recurrenceId: eventId.slice(separatorIndex + 1),
+      seriesUpdateMode: "single",
+    };
+  }
+  return { id: eventId, seriesUpdateMode: isSeries ? "all" : "single" };
+}
@@ -0,0 +1,211 @@
+/**
+ * Shared request layer for the Notion and Morgen APIs.
+ * Every call goes through a per-API rate limiter and is retried with exponential backoff when it fails
+ * for a transient reason (rate limiting, server errors, network errors), honouring Retry-After.
+ * Operations that are not idempotent are only retried when the request was certainly not processed.
+ */
+
+export type ApiName = "notion" | "morgen";
+
+export type RequestConfig = {
+  rateLimits: { [api in ApiName]: number };
+  maxRetries: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+}
+
+export type RequestOptions = {
+  idempotent: boolean;
+}
+
+/**
+ * A request that failed for good, either because the failure is permanent (e.g. a validation error)
+ * or because a transient failure persisted through all retries.
+ */
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    readonly api: ApiName,
+    readonly status: number | null,
+    readonly transient: boolean,
+    readonly attempts: number,
+    readonly originalError: any,
+  ) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+const TRANSIENT_NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "ECONNABORTED", "notionhq_client_request_timeout"];
+
+let requestConfig: RequestConfig = {
+  rateLimits: { notion: 3, morgen: 1 },
+  maxRetries: 5,
+  initialBackoffMs: 1000,
+  maxBackoffMs: 60000,
+};
+
+const nextRequestTime: { [api in ApiName]: number } = { notion: 0, morgen: 0 };
+
+/**
+ * Replaces the rate limits and retry settings used for all requests.
+ *
+ * @param {RequestConfig} config - The new request settings.
+ */
+export function configureRequests(config: RequestConfig) {
+  requestConfig = config;
+}
+
+/**
+ * Calls an API through the rate limiter, retrying transient failures with exponential backoff.
+ *
+ * @param {ApiName} api - The API being called, which selects the rate limit.
+ * @param {() => Promise<T>} operation - The function that sends the request.
+ * @param {RequestOptions} options - Whether the operation can be safely repeated.
+ * @returns {Promise<T>} - The result of the operation.
+ * @throws {RequestError} - If the request failed permanently or ran out of retries.
+ */
+export async function callApi<T>(api: ApiName, operation: () => Promise<T>, options: RequestOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    await waitForRateLimit(api);
+
+    try {
+      return await operation();
+    } catch (error) {
+      const status = getStatus(error);
+      const transient = isTransientError(error);
+      const retryable = transient && (options.idempotent || wasNotProcessed(error));
+
+      if (!retryable || attempt > requestConfig.maxRetries) {
+        const detail = error.response?.data?.message || error.message;
+        throw new RequestError(
+          `${api} request failed${status ? ` with status ${status}` : ""} after ${attempt} attempt(s): ${detail}`,
+          api, status, transient, attempt, error
+        );
+      }
+
+      const delay = getRetryDelay(error, attempt);
+      console.warn(`${api} request failed${status ? ` with status ${status}` : ""}, retrying in ${Math.round(delay / 1000)}s (attempt ${attempt} of ${requestConfig.maxRetries})`);
+
+      // a rate-limited API is paused for every caller, not just this one
+      if (status === 429) {
+        nextRequestTime[api] = Math.max(nextRequestTime[api], Date.now() + delay);
+      }
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Determines whether a failed request may succeed if it is sent again.
+ *
+ * @param {any} error - The error thrown by axios or the Notion client.
+ * @returns {boolean} - Returns true for rate limiting, server errors and network errors.
+ */
+export function isTransientError(error: any): boolean {
+  const status = getStatus(error);
+  if (status !== null) {
+    return TRANSIENT_STATUS_CODES.includes(status);
+  }
+  return TRANSIENT_NETWORK_CODES.includes(error?.code);
+}
+
+/**
+ * Determines whether a failed request certainly never reached the API, so that even a non-idempotent
+ * operation like a create can be sent again without risking a duplicate.
+ *
+ * @param {any} error - The error thrown by axios or the Notion client.
+ * @returns {boolean} - Returns true if the request was rejected before it was processed.
+ */
+function wasNotProcessed(error: any): boolean {
+  return getStatus(error) === 429 || error?.code === "ECONNREFUSED";
+}
+
+/**
+ * Extracts the HTTP status code from an axios or Notion client error.
+ *
+ * @param {any} error - The error to inspect.
+ * @returns {number | null} - The status code, or null if the request got no response.
+ */
+function getStatus(error: any): number | null {
+  const status = error?.response?.status ?? error?.status;
+  return typeof status === "number" ? status : null;
+}
+
+/**
+ * Computes how long to wait before the next attempt: the Retry-After header if the API sent one,
+ * otherwise exponential backoff with jitter, capped at the configured maximum.
+ *
+ * @param {any} error - The error of the failed attempt.
+ * @param {number} attempt - The number of the failed attempt, starting at 1.
+ * @returns {number} - The delay in milliseconds.
+ */
+function getRetryDelay(error: any, attempt: number): number {
+  const retryAfter = parseRetryAfter(getHeader(error, "retry-after"));
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, requestConfig.maxBackoffMs);
+  }
+
+  const backoff = requestConfig.initialBackoffMs * 2 ** (attempt - 1);
+  const jitter = Math.random() * requestConfig.initialBackoffMs;
+  return Math.min(backoff + jitter, requestConfig.maxBackoffMs);
+}
+
+/**
+ * Reads a response header from an axios or Notion client error.
+ *
+ * @param {any} error - The error to inspect.
+ * @param {string} name - The lower-case header name.
+ * @returns {string | null} - The header value, or null if it is missing.
+ */
+function getHeader(error: any, name: string): string | null {
+  const headers = error?.response?.headers ?? error?.headers;
+  if (!headers) {
+    return null;
+  }
+  if (typeof headers.get === "function") {
+    return headers.get(name);
+  }
+  return headers[name] ?? null;
+}
+
+/**
+ * Parses a Retry-After header, which is either a number of seconds or an HTTP date.
+ *
+ * @param {string | null} value - The header value.
+ * @returns {number | null} - The delay in milliseconds, or null if the header is missing or invalid.
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Waits until the API's rate limit allows another request and reserves the next slot.
+ *
+ * @param {ApiName} api - The API about to be called.
+ */
+async function waitForRateLimit(api: ApiName) {
+  const interval = 1000 / requestConfig.rateLimits[api];
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestTime[api]);
+  nextRequestTime[api] = slot + interval;
+
+  if (slot > now) {
+    await sleep(slot - now);
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,218 @@
+/**
+ * Conversion between Notion rich text and the Markdown used in Morgen descriptions.
+ * Bold, italic, strikethrough, inline code and links survive a round trip; mentions and equations are kept
+ * as their text (and link). Text written to Notion is split so no text object exceeds Notion's length limit,
+ * and runs are merged so no rich text array exceeds Notion's element limit.
+ */
+
+// Notion allows at most 2000 characters in the content of one text object
+export const NOTION_TEXT_LIMIT = 2000;
+
+// Notion allows at most 100 text objects in one rich text array
+export const NOTION_RICH_TEXT_LIMIT = 100;
+
+const ESCAPED_CHARACTERS = /([\\*`~\[\]])/g;
+
+// Rich text types
+export type RichTextAnnotations = {
+  bold: boolean;
+  italic: boolean;
+  strikethrough: boolean;
+  code: boolean;
+}
+
+export type RichTextRequest = {
+  type: "text";
+  text: { content: string, link: { url: string } | null };
+  annotations: RichTextAnnotations;
+}
+
+/**
+ * Converts Notion rich text to Markdown.
+ *
+ * @param {any[]} richText - The rich text objects of a Notion property or block.
+ * @returns {string} - The text as Markdown.
+ */
+export function richTextToMarkdown(richText: any[]): string {
+  return (richText ?? []).map(part => {
+    const annotations = part.annotations ?? {};
+    const text = part.plain_text ?? part.text?.content ?? '';
+    if (!text) {
+      return '';
+    }
+
+    let markdown = annotations.code ? `\`${text.replace(/`/g, "'")}\`` : escapeMarkdown(text);
+    const url = part.href ?? part.text?.link?.url;
+    if (url) {
+      markdown = `[${markdown}](${url})`;
+    }
+    if (annotations.strikethrough) {
+      markdown = wrapMarker(markdown, "~~");
+    }
+    if (annotations.italic) {
+      markdown = wrapMarker(markdown, "*");
+    }
+    if (annotations.bold) {
+      markdown = wrapMarker(markdown, "**");
+    }
+    return markdown;
+  }).join('');
+}
+
+/**
+ * Converts Markdown to Notion rich text objects.
+ * Markers without a closing counterpart are kept as text, and long runs are split at the Notion length limit.
+ * Beyond the Notion element limit, the last runs lose their formatting and are merged into plain text.
+ *
+ * @param {string} markdown - The Markdown text.
+ * @returns {RichTextRequest[]} - The rich text objects to write to Notion.
+ */
+export function markdownToRichText(markdown: string): RichTextRequest[] {
+  const parts: RichTextRequest[] = [];
+  const annotations: RichTextAnnotations = { bold: false, italic: false, strikethrough: false, code: false };
+  let buffer = '';
+
+  const flush = (text = buffer, link: string | null = null, code = false) => {
+    if (text) {
+      parts.push(...splitText(text, link, { ...annotations, code }));
+    }
+    buffer = '';
+  };
+
+  let index = 0;
+  while (index < markdown.length) {
+    const rest = markdown.slice(index);
+
+    if (rest[0] === '\\' && rest.length > 1 && '\\*`~[]'.includes(rest[1])) {
+      buffer += rest[1];
+      index += 2;
+      continue;
+    }
+
+    const marker = ["**", "~~", "*"].find(candidate => rest.startsWith(candidate));
+    if (marker) {
+      const field = marker === "**" ? "bold" : marker === "~~" ? "strikethrough" : "italic";
+      if (annotations[field] || opensSpan(markdown, index, marker)) {
+        flush();
+        annotations[field] = !annotations[field];
+        index += marker.length;
+        continue;
+      }
+    }
+
+    if (rest[0] === '`') {
+      const end = markdown.indexOf('`', index + 1);
+      if (end > index + 1) {
+        flush();
+        flush(markdown.slice(index + 1, end), null, true);
+        index = end + 1;
+        continue;
+      }
+    }
+
+    const link = /^\[((?:\\.|[^\]\\])*)\]\(([^)\s]+)\)/.exec(rest);
+    if (link) {
+      flush();
+      flush(unescapeMarkdown(link[1]), link[2]);
+      index += link[0].length;
+      continue;
+    }
+
+    buffer += rest[0];
+    index += 1;
+  }
+  flush();
+
+  // an empty text is still written as one text object, so the task keeps a description property that isValidTask accepts
+  if (!parts.length) {
+    parts.push({ type: "text", text: { content: '', link: null }, annotations: { ...annotations } });
+  }
+  return limitParts(parts);
+}
+
+/**
+ * Converts Markdown to plain text, dropping all formatting.
+ *
+ * @param {string} markdown - The Markdown text.
+ * @returns {string} - The plain text.
+ */
+export function markdownToPlainText(markdown: string): string {
+  return markdownToRichText(markdown).map(part => part.text.content).join('');
+}
+
+/**
+ * Checks whether two Markdown texts have the same text, ignoring formatting and surrounding whitespace.
+ *
+ * @param {string} a - The first text.
+ * @param {string} b - The second text.
+ * @returns {boolean} - Returns true if only the formatting differs.
+ */
+export function haveSameText(a: string, b: string): boolean {
+  return markdownToPlainText(a ?? '').trim() === markdownToPlainText(b ?? '').trim();
+}
+
+/**
+ * Splits a text into text objects that stay within the Notion length limit.
+ *
+ * @param {string} text - The text to split.
+ * @param {string | null} link - The URL the text links to, if any.
+ * @param {RichTextAnnotations} annotations - The formatting of the text.
+ * @returns {RichTextRequest[]} - The text objects.
+ */
+function splitText(text: string, link: string | null, annotations: RichTextAnnotations): RichTextRequest[] {
+  const parts: RichTextRequest[] = [];
+  for (let start = 0; start < text.length; start += NOTION_TEXT_LIMIT) {
+    parts.push({
+      type: "text",
+      text: { content: text.slice(start, start + NOTION_TEXT_LIMIT), link: link ? { url: link } : null },
+      annotations: { ...annotations },
+    });
+  }
+  return parts;
+}
+
+/**
+ * Keeps text objects within the Notion element limit by merging the last ones into plain text.
+ * A text too long for the limit even without formatting is cut off.
+ *
+ * @param {RichTextRequest[]} parts - The text objects.
+ * @returns {RichTextRequest[]} - At most NOTION_RICH_TEXT_LIMIT text objects.
+ */
+function limitParts(parts: RichTextRequest[]): RichTextRequest[] {
+  if (parts.length <= NOTION_RICH_TEXT_LIMIT) {
+    return parts;
+  }
+
+  const plain: RichTextAnnotations = { bold: false, italic: false, strikethrough: false, code: false };
+  for (let kept = NOTION_RICH_TEXT_LIMIT - 1; kept >= 0; kept--) {
+    const merged = splitText(parts.slice(kept).map(part => part.text.content).join(''), null, plain);
+    if (kept + merged.length <= NOTION_RICH_TEXT_LIMIT) {
+      return [...parts.slice(0, kept), ...merged];
+    }
+  }
+  return splitText(parts.map(part => part.text.content).join(''), null, plain).slice(0, NOTION_RICH_TEXT_LIMIT);
+}
+
+/**
+ * Checks whether a marker opens a formatted span: it must be followed by text and closed later on.
+ */
+function opensSpan(markdown: string, index: number, marker: string): boolean {
+  const next = markdown[index + marker.length];
+  return Boolean(next) && !/\s/.test(next) && markdown.indexOf(marker, index + marker.length + 1) !== -1;
+}
+
+/**
+ * Puts a marker around text, leaving surrounding whitespace outside so the marker stays valid Markdown.
+ */
+function wrapMarker(markdown: string, marker: string): string {
+  const [, leading, inner, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(markdown)!;
+  return inner ? `${leading}${marker}${inner}${marker}${trailing}` : markdown;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(ESCAPED_CHARACTERS, '\\$1');
+}
+
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([\\*`~\[\]])/g, '$1');
+}
@@ -0,0 +1,61 @@
+/**
+ * Scheduler for the recurring sync cycles of the daemon and the webhook receiver.
+ * A cycle is only started once the previous one has finished, so two cycles never see the same new item
+ * or write the sync state at the same time. Starts keep to the interval as long as cycles are shorter than it,
+ * plus a random jitter, so several instances don't hit the APIs in lockstep.
+ */
+
+// Scheduler types
+export type SchedulerOptions = {
+  intervalMs: number;
+  // a random delay of up to this much is added before every cycle but the first
+  jitterMs: number;
+  task: () => Promise<unknown>;
+}
+
+export type Scheduler = {
+  // resolves once the cycle in flight, if any, has finished; no cycle is started after that
+  stop(): Promise<void>;
+}
+
+/**
+ * Runs a task immediately and then on the given interval, never starting a run before the previous one finished.
+ * A run that takes longer than the interval is followed by the next one right away. Errors are reported
+ * and don't stop the schedule.
+ *
+ * @param {SchedulerOptions} options - The interval, the jitter and the task to run.
+ * @returns {Scheduler} - The running scheduler.
+ */
+export function startScheduler(options: SchedulerOptions): Scheduler {
+  let timer: NodeJS.Timeout | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+  let stopped = false;
+
+  const run = () => {
+    timer = null;
+    const startedAt = Date.now();
+    inFlight = (async () => {
+      try {
+        await options.task();
+      } catch (error) {
+        console.error('Scheduled cycle failed:', error.message);
+      }
+      if (!stopped) {
+        const elapsed = Date.now() - startedAt;
+        timer = setTimeout(run, Math.max(0, options.intervalMs - elapsed) + Math.random() * options.jitterMs);
+      }
+    })();
+  };
+
+  run();
+  return {
+    async stop() {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      await inFlight;
+    },
+  };
+}
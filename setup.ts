@@ -0,0 +1,137 @@
+/**
+ * Provisioning of the Notion task database.
+ * The setup compares the database with the property mapping and adds the properties and select options the sync
+ * writes but the database lacks. Running it again finds nothing to add. What the Notion API cannot do
+ * (changing property types, adding a title or status property, adding status options) is listed as manual steps.
+ */
+
+import { NotionPropertyMapping, SyncConfig } from "./config";
+import { NOTION_PROPERTY_TYPES, NOTION_TYPE_NAMES, NotionPropertyType } from "./preflight";
+
+// Setup types
+export type SetupChange = {
+  property: string;
+  type: NotionPropertyType;
+  // the select option to add; absent when the property itself is added
+  option?: string;
+}
+
+export type DatabaseSetupPlan = {
+  dryRun: boolean;
+  changes: SetupChange[];
+  manualSteps: string[];
+  error?: string;
+}
+
+// property types that cannot be created through the Notion API
+const MANUAL_PROPERTY_TYPES: NotionPropertyType[] = ["title", "status"];
+
+/**
+ * Compares the database with the configuration and lists what has to be added:
+ * every mapped property that is missing, and the Areas the sync sets that are not options of the Area property.
+ *
+ * @param {{ [name: string]: any }} properties - The properties of the retrieved database, by name.
+ * @param {SyncConfig} config - The loaded configuration.
+ * @param {boolean} dryRun - Whether the changes are only planned.
+ * @returns {DatabaseSetupPlan} - The changes to make and the steps left to the user.
+ */
+export function planDatabaseSetup(properties: { [name: string]: any }, config: SyncConfig, dryRun: boolean): DatabaseSetupPlan {
+  const plan: DatabaseSetupPlan = { dryRun, changes: [], manualSteps: [] };
+
+  for (const field of Object.keys(NOTION_PROPERTY_TYPES) as (keyof NotionPropertyMapping)[]) {
+    const name = config.notion.properties[field];
+    if (!name) {
+      continue;
+    }
+    const type = NOTION_PROPERTY_TYPES[field];
+    const property = properties[name];
+    if (property && property.type !== type) {
+      plan.manualSteps.push(`Change the type of "${name}" from ${NOTION_TYPE_NAMES[property.type] ?? property.type} to ${NOTION_TYPE_NAMES[type]}, ` +
+        `or set notion.properties.${field} to another property.`);
+    } else if (!property && MANUAL_PROPERTY_TYPES.includes(type)) {
+      plan.manualSteps.push(`Add a ${NOTION_TYPE_NAMES[type]} property named "${name}", or rename the existing one; the Notion API cannot create it.`);
+    } else if (!property) {
+      plan.changes.push({ property: name, type });
+    }
+  }
+
+  const areaName = config.notion.properties.area;
+  const areaProperty = properties[areaName];
+  if (!areaProperty || areaProperty.type === "select") {
+    const options = new Set<string>((areaProperty?.select?.options ?? []).map(option => option.name));
+    for (const area of [config.notion.defaults.area, ...Object.keys(config.morgen.calendars)]) {
+      if (area && !options.has(area)) {
+        options.add(area);
+        plan.changes.push({ property: areaName, type: "select", option: area });
+      }
+    }
+  }
+
+  const statusName = config.notion.properties.status;
+  const statusProperty = properties[statusName];
+  const statuses = [config.notion.defaults.status, ...(config.status.enabled ? Object.values(config.status.morgenToNotion) : [])];
+  const statusOptions = new Set<string>((statusProperty?.status?.options ?? []).map(option => option.name));
+  for (const status of new Set(statuses)) {
+    if (status && statusProperty?.type === "status" && !statusOptions.has(status)) {
+      plan.manualSteps.push(`Add the option "${status}" to the Status property "${statusName}"; the Notion API cannot add status options.`);
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Builds the properties of a database update request that makes the planned changes.
+ * Select options are sent together with the existing ones, which the update would otherwise remove.
+ *
+ * @param {DatabaseSetupPlan} plan - The planned changes.
+ * @param {{ [name: string]: any }} properties - The current properties of the database, by name.
+ * @returns {{ [name: string]: any }} - The properties of the update request.
+ */
+export function buildDatabaseUpdate(plan: DatabaseSetupPlan, properties: { [name: string]: any }): { [name: string]: any } {
+  const update: { [name: string]: any } = {};
+  for (const change of plan.changes) {
+    if (change.type === "select") {
+      const existing = update[change.property]?.select.options ?? (properties[change.property]?.select?.options ?? [])
+        .map(option => ({ name: option.name, color: option.color }));
+      const options = change.option ? [...existing, { name: change.option }] : existing;
+      update[change.property] = { select: { options } };
+    } else if (change.type === "number") {
+      update[change.property] = { number: { format: "number" } };
+    } else {
+      update[change.property] = { [change.type]: {} };
+    }
+  }
+  return update;
+}
+
+/**
+ * Formats a setup plan as human-readable text.
+ *
+ * @param {DatabaseSetupPlan} plan - The plan to format.
+ * @returns {string} - The formatted plan.
+ */
+export function formatSetupPlan(plan: DatabaseSetupPlan): string {
+  const verb = plan.dryRun ? "Would add" : plan.error ? "Failed to add" : "Added";
+  const lines = [plan.changes.length ? `${verb} ${plan.changes.length} item(s) to the Notion database:` : "The Notion database has every property and option the sync needs."];
+
+  for (const change of plan.changes) {
+    if (change.option) {
+      lines.push(`  + option "${change.option}" of ${NOTION_TYPE_NAMES[change.type]} property "${change.property}"`);
+    } else {
+      lines.push(`  + ${NOTION_TYPE_NAMES[change.type]} property "${change.property}"`);
+    }
+  }
+  if (plan.error) {
+    lines.push(`Error: ${plan.error}`);
+  }
+
+  if (plan.manualSteps.length) {
+    lines.push("Left to do by hand in Notion:");
+    for (const step of plan.manualSteps) {
+      lines.push(`  - ${step}`);
+    }
+  }
+
+  return lines.join("\n");
+}
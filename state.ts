@@ -0,0 +1,155 @@
+/**
+ * Durable storage for the sync state between Notion and Morgen.
+ * The last-synced event map is written to a JSON file after every successful cycle
+ * and loaded again at startup, so restarts don't lose track of creates, edits and deletions.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { EventPair, SyncCursors, SyncState } from "./types";
+
+// version 2 added the status, Area, calendar, series and link tag fields of the items
+const STATE_VERSION = 2;
+
+// State types
+export type MigrationDefaults = {
+  // the status and Area that new Notion pages were created with
+  notionStatus: string;
+  notionArea: string;
+  // the Area mapped to the default Morgen calendar ('' if none)
+  morgenArea: string;
+}
+
+/**
+ * Returns the path of the state file, configurable through the SYNC_STATE_PATH environment variable.
+ *
+ * @returns {string} - The absolute path of the state file.
+ */
+export function getStatePath(): string {
+  return path.resolve(process.env.SYNC_STATE_PATH || ".morgennotion-state.json");
+}
+
+/**
+ * Loads the last saved sync state from disk.
+ * A missing file means this is the first run, so an empty state is returned.
+ * An unreadable or corrupt file is reported and also treated as an empty state.
+ *
+ * @param {MigrationDefaults} migrationDefaults - The values that fill in the fields a state of an earlier version lacks.
+ * @param {string} [statePath] - The path of the state file.
+ * @returns {Promise<SyncState>} - A promise that resolves to the saved sync state.
+ */
+export async function loadSyncState(migrationDefaults: MigrationDefaults, statePath = getStatePath()): Promise<SyncState> {
+  const emptyState: SyncState = { version: STATE_VERSION, savedAt: "", eventMap: {} };
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(statePath, "utf8");
+  } catch (error) {
+    if (error.code !== "ENOENT") {
+      console.error("Error reading sync state:", error.message);
+    }
+    return emptyState;
+  }
+
+  try {
+    let state = JSON.parse(raw) as SyncState;
+    if (state.version === 1 && typeof state.eventMap === "object" && state.eventMap !== null) {
+      state = migrateFromVersion1(state, migrationDefaults);
+      console.log(`Migrated sync state in ${statePath} from version 1`);
+    }
+    if (state.version !== STATE_VERSION || typeof state.eventMap !== "object" || state.eventMap === null) {
+      console.error(`Ignoring sync state with unexpected format in ${statePath}`);
+      return emptyState;
+    }
+    console.log(`Loaded sync state with ${Object.keys(state.eventMap).length} pairs from ${statePath}`);
+    return state;
+  } catch (error) {
+    console.error("Error parsing sync state:", error.message);
+    return emptyState;
+  }
+}
+
+/**
+ * Brings a version 1 state up to date. Version 1 did not sync status or Area: its Notion pages kept the status
+ * and Area they were created with, and its Morgen events were open, in the default calendar and never series.
+ *
+ * @param {SyncState} state - The state as saved by version 1.
+ * @param {MigrationDefaults} migrationDefaults - The status and Areas the items of version 1 had.
+ * @returns {SyncState} - The state in the current version.
+ */
+function migrateFromVersion1(state: SyncState, migrationDefaults: MigrationDefaults): SyncState {
+  const eventMap: { [key: string]: EventPair } = {};
+  for (const key of Object.keys(state.eventMap)) {
+    const { notion, morgen } = state.eventMap[key];
+    eventMap[key] = {};
+    if (notion) {
+      eventMap[key].notion = {
+        status: migrationDefaults.notionStatus,
+        area: migrationDefaults.notionArea,
+        accountId: null,
+        calendarId: null,
+        isSeries: false,
+        hasLinkTag: false,
+        ...notion,
+      };
+    }
+    if (morgen) {
+      eventMap[key].morgen = {
+        status: "open",
+        area: migrationDefaults.morgenArea,
+        accountId: null,
+        calendarId: null,
+        isSeries: false,
+        hasLinkTag: false,
+        ...morgen,
+      };
+    }
+  }
+  return { ...state, version: STATE_VERSION, eventMap };
+}
+
+/**
+ * Saves the sync state to disk atomically.
+ * The state is written to a temporary file in the same directory, flushed, and then renamed
+ * over the old file, so a crash mid-write leaves either the old or the new state intact.
+ *
+ * @param {{ [key: string]: EventPair }} eventMap - The last-synced map of event pairs.
+ * @param {SyncCursors | null} [cursors] - Where the next incremental cycle starts; null for a full cycle.
+ * @param {string} [statePath] - The path of the state file.
+ */
+export async function saveSyncState(eventMap: { [key: string]: EventPair }, cursors: SyncCursors | null = null, statePath = getStatePath()) {
+  const state: SyncState = {
+    version: STATE_VERSION,
+    savedAt: new Date().toISOString(),
+    eventMap,
+    ...(cursors ? { cursors } : {}),
+  };
+
+  await writeFileAtomic(statePath, JSON.stringify(state, null, 2));
+}
+
+/**
+ * Writes a file by way of a temporary file and a rename.
+ *
+ * @param {string} filePath - The file to write.
+ * @param {string} contents - The new contents of the file.
+ */
+export async function writeFileAtomic(filePath: string, contents: string) {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const handle = await fs.open(tempPath, "w");
+  try {
+    await handle.writeFile(contents, "utf8");
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Mapping between the Notion Status property and the state of the linked Morgen event.
+ * A Notion status can mark the Morgen event as done (with a title prefix or by moving it to a "done" calendar)
+ * or remove it; a Morgen event that is marked done, declined or reopened sets the Notion status.
+ */
+
+import { MorgenApiEvent } from "./morgen";
+
+// Status types
+export type StatusAction = "prefix" | "move" | "remove" | "none";
+
+export type MorgenStatus = "open" | "done" | "declined";
+
+export type StatusConfig = {
+  enabled: boolean;
+  // what happens to the Morgen event while the Notion task has one of these statuses; unlisted statuses are "none"
+  notionToMorgen: { [notionStatus: string]: StatusAction };
+  // the Notion status to set when the Morgen event becomes done, declined or open again; empty leaves it alone
+  morgenToNotion: { [status in MorgenStatus]: string };
+  donePrefix: string;
+  doneCalendarId: string;
+  // the calendar owner's address, used to find their participation status; empty turns off "declined"
+  selfEmail: string;
+}
+
+/**
+ * Returns what should happen to the Morgen event of a task with the given Notion status.
+ *
+ * @param {StatusConfig} config - The status configuration.
+ * @param {string} notionStatus - The name of the Notion status.
+ * @returns {StatusAction} - The action for the Morgen event.
+ */
+export function getStatusAction(config: StatusConfig, notionStatus: string): StatusAction {
+  if (!config.enabled) {
+    return "none";
+  }
+  return config.notionToMorgen[notionStatus] ?? "none";
+}
+
+/**
+ * Reads the status of a Morgen event and returns its title without the done prefix.
+ * An event is done if its title has the done prefix or it is in the done calendar,
+ * and declined if the calendar owner declined it.
+ *
+ * @param {StatusConfig} config - The status configuration.
+ * @param {MorgenApiEvent} event - The event from the Morgen API.
+ * @returns {{ title: string, status: MorgenStatus }} - The title without prefix and the status of the event.
+ */
+export function readMorgenStatus(config: StatusConfig, event: MorgenApiEvent): { title: string, status: MorgenStatus } {
+  const title = event.title ?? '';
+  if (!config.enabled) {
+    return { title, status: "open" };
+  }
+
+  const selfEmail = config.selfEmail.toLowerCase();
+  const self = selfEmail && Object.values(event.participants ?? {})
+    .find(participant => participant.email?.toLowerCase() === selfEmail);
+  if (self && self.participationStatus === "declined") {
+    return { title: stripDonePrefix(config, title), status: "declined" };
+  }
+
+  if (config.donePrefix && title.startsWith(config.donePrefix)) {
+    return { title: title.slice(config.donePrefix.length), status: "done" };
+  }
+  if (config.doneCalendarId && event.calendarId === config.doneCalendarId) {
+    return { title, status: "done" };
+  }
+  return { title, status: "open" };
+}
+
+/**
+ * Returns the title to write to Morgen for an event with the given status.
+ * Done events get the done prefix, unless they are marked done by being in the done calendar.
+ *
+ * @param {StatusConfig} config - The status configuration.
+ * @param {{ title: string, status?: string, calendarId?: string | null }} event - The title, status and calendar of the event.
+ * @returns {string} - The title for Morgen.
+ */
+export function formatMorgenTitle(config: StatusConfig, event: { title: string, status?: string, calendarId?: string | null }): string {
+  const isDone = config.enabled && event.status === "done";
+  const inDoneCalendar = config.doneCalendarId && event.calendarId === config.doneCalendarId;
+  return isDone && !inDoneCalendar ? `${config.donePrefix}${event.title}` : event.title;
+}
+
+function stripDonePrefix(config: StatusConfig, title: string): string {
+  return config.donePrefix && title.startsWith(config.donePrefix) ? title.slice(config.donePrefix.length) : title;
+}
@@ -0,0 +1,215 @@
+/**
+ * In-memory fake of the Morgen v3 events endpoints (list, create, update and delete) and of the calendar list.
+ * Events keep their state between requests and can be inspected and edited directly by tests.
+ * Recurring events are listed as one entry per occurrence, all with the series' ID.
+ */
+
+import { randomUUID } from "crypto";
+import { DateTime } from "luxon";
+import { createClock, FakeRequest, FakeResponse, FakeServer, httpError, startFakeServer } from "./server";
+
+export type FakeEvent = {
+  id: string;
+  accountId: string;
+  calendarId: string;
+  title: string;
+  description: string;
+  start: string;
+  duration: string;
+  timeZone: string | null;
+  showWithoutTime: boolean;
+  updated: string;
+  recurrenceRules?: { frequency: "daily" | "weekly", count: number }[];
+  // changes to single occurrences, by original start; an excluded occurrence was deleted
+  recurrenceOverrides?: { [recurrenceId: string]: Partial<FakeEvent> & { excluded?: boolean } };
+}
+
+export type FakeOccurrence = FakeEvent & {
+  masterEventId: string;
+  recurrenceId: string;
+}
+
+export type FakeMorgen = FakeServer & {
+  accountId: string;
+  calendarId: string;
+  events: Map<string, FakeEvent>;
+  addEvent(fields: Partial<FakeEvent>): string;
+  editEvent(eventId: string, fields: Partial<FakeEvent>): void;
+  removeEvent(eventId: string): void;
+  getEvent(eventId: string): FakeEvent | undefined;
+  getOccurrences(eventId: string): FakeOccurrence[];
+}
+
+// calendars of the account besides the default one, for the mapped Areas of the tests
+const EXTRA_CALENDAR_IDS = ["calendar-work"];
+
+const EVENT_FIELDS = ["title", "description", "start", "duration", "timeZone", "showWithoutTime", "calendarId", "recurrenceRules"];
+const OCCURRENCE_FIELDS = ["title", "description", "start", "duration", "timeZone", "showWithoutTime"];
+
+/**
+ * Starts a fake Morgen API for a single account.
+ *
+ * @returns {Promise<FakeMorgen>} - The running fake.
+ */
+export async function startFakeMorgen(): Promise<FakeMorgen> {
+  const accountId = "account-1";
+  const calendarId = "calendar-1";
+  const events = new Map<string, FakeEvent>();
+  const now = createClock();
+
+  const server = await startFakeServer(request => handleRequest(request));
+
+  function handleRequest(request: FakeRequest): FakeResponse {
+    if (request.method === "GET" && request.path === "/v3/calendars/list") {
+      const calendars = [calendarId, ...EXTRA_CALENDAR_IDS].map(id => ({ id, accountId, name: id }));
+      return { status: 200, body: { data: { calendars } } };
+    }
+
+    if (request.method === "GET" && request.path === "/v3/events/list") {
+      return { status: 200, body: { data: { events: listEvents(request.query) } } };
+    }
+
+    if (request.method === "POST" && request.path === "/v3/events/create") {
+      checkAccount(request.body);
+      const event = createEvent(request.body);
+      return { status: 200, body: { data: { event: { id: event.id, accountId, calendarId: event.calendarId } } } };
+    }
+
+    if (request.method === "POST" && request.path === "/v3/events/update") {
+      checkAccount(request.body);
+      const event = findEvent(request.body.id);
+      if (request.body.recurrenceId && request.query.get("seriesUpdateMode") === "single") {
+        overrideOccurrence(event, request.body.recurrenceId, pick(request.body, OCCURRENCE_FIELDS));
+      } else {
+        updateEvent(event, request.body);
+      }
+      return { status: 200, body: {} };
+    }
+
+    if (request.method === "POST" && request.path === "/v3/events/delete") {
+      checkAccount(request.body);
+      const event = findEvent(request.body.id);
+      if (request.body.recurrenceId && request.query.get("seriesUpdateMode") === "single") {
+        overrideOccurrence(event, request.body.recurrenceId, { excluded: true });
+      } else {
+        events.delete(request.body.id);
+      }
+      return { status: 200, body: {} };
+    }
+
+    return { status: 404, body: { message: `No route for ${request.method} ${request.path}` } };
+  }
+
+  function listEvents(query: URLSearchParams): (FakeEvent | FakeOccurrence)[] {
+    if (query.get("accountId") !== accountId) {
+      throw httpError(400, { message: "Unknown account" });
+    }
+    const calendarIds = (query.get("calendarIds") ?? "").split(",");
+    const start = DateTime.fromISO(query.get("start")!, { zone: "utc" });
+    const end = DateTime.fromISO(query.get("end")!, { zone: "utc" });
+
+    return [...events.values()].flatMap(event => event.recurrenceRules ? expandSeries(event) : [event]).filter(event => {
+      const eventStart = DateTime.fromISO(event.start, { zone: event.timeZone ?? "utc" });
+      return calendarIds.includes(event.calendarId) && eventStart >= start && eventStart <= end;
+    });
+  }
+
+  function expandSeries(event: FakeEvent): FakeOccurrence[] {
+    const occurrences: FakeOccurrence[] = [];
+    const firstStart = DateTime.fromISO(event.start);
+    for (const rule of event.recurrenceRules!) {
+      for (let index = 0; index < rule.count; index++) {
+        const start = rule.frequency === "daily" ? firstStart.plus({ days: index }) : firstStart.plus({ weeks: index });
+        const recurrenceId = start.toFormat("yyyy-MM-dd'T'HH:mm:ss");
+        const override = event.recurrenceOverrides?.[recurrenceId] ?? {};
+        if (override.excluded) {
+          continue;
+        }
+        const { recurrenceOverrides, ...series } = event;
+        occurrences.push({ ...series, start: recurrenceId, ...override, id: event.id, masterEventId: event.id, recurrenceId });
+      }
+    }
+    return occurrences;
+  }
+
+  function overrideOccurrence(event: FakeEvent, recurrenceId: string, fields: Partial<FakeEvent> & { excluded?: boolean }) {
+    event.recurrenceOverrides = {
+      ...event.recurrenceOverrides,
+      [recurrenceId]: { ...event.recurrenceOverrides?.[recurrenceId], ...fields },
+    };
+    event.updated = now();
+  }
+
+  function pick(body: any, fields: string[]): Partial<FakeEvent> {
+    const picked: any = {};
+    for (const field of fields) {
+      if (body[field] !== undefined) {
+        picked[field] = body[field];
+      }
+    }
+    return picked;
+  }
+
+  function checkAccount(body: any) {
+    if (body?.accountId !== accountId) {
+      throw httpError(400, { message: "Unknown account" });
+    }
+  }
+
+  function findEvent(eventId: string): FakeEvent {
+    const event = events.get(eventId);
+    if (!event) {
+      throw httpError(404, { message: `Event ${eventId} not found` });
+    }
+    return event;
+  }
+
+  function createEvent(fields: Partial<FakeEvent>): FakeEvent {
+    const event: FakeEvent = {
+      id: fields.id ?? randomUUID(),
+      accountId,
+      calendarId,
+      title: "",
+      description: "",
+      start: "",
+      duration: "PT1H",
+      timeZone: null,
+      showWithoutTime: false,
+      updated: now(),
+    };
+    updateEvent(event, fields);
+    events.set(event.id, event);
+    return event;
+  }
+
+  function updateEvent(event: FakeEvent, fields: Partial<FakeEvent>) {
+    for (const field of EVENT_FIELDS) {
+      if (fields[field] !== undefined) {
+        event[field] = fields[field];
+      }
+    }
+    event.updated = now();
+  }
+
+  return {
+    ...server,
+    accountId,
+    calendarId,
+    events,
+    addEvent(fields) {
+      return createEvent(fields).id;
+    },
+    editEvent(eventId, fields) {
+      updateEvent(findEvent(eventId), fields);
+    },
+    removeEvent(eventId) {
+      events.delete(eventId);
+    },
+    getEvent(eventId) {
+      return events.get(eventId);
+    },
+    getOccurrences(eventId) {
+      return expandSeries(findEvent(eventId));
+    },
+  };
+}
@@ -0,0 +1,405 @@
+/**
+ * In-memory fake of the Notion API endpoints used by the sync: database retrieve, update and queries, and page
+ * retrieve, create and update. Pages keep their state between requests and can be inspected
+ * and edited directly by tests.
+ */
+
+import { randomUUID } from "crypto";
+import { createClock, FakeRequest, FakeResponse, FakeServer, httpError, startFakeServer } from "./server";
+
+export type NotionPropertyType = "title" | "rich_text" | "date" | "select" | "status" | "last_edited_time" | "number";
+
+export type FakePage = {
+  id: string;
+  archived: boolean;
+  created_time: string;
+  last_edited_time: string;
+  properties: { [name: string]: any };
+  blocks: any[];
+}
+
+export type TaskFields = {
+  title?: string;
+  dueDate?: string;
+  dueDateEnd?: string | null;
+  // plain text, or rich text objects to set formatting and links
+  description?: string | any[];
+  area?: string;
+  status?: string;
+  morgenEventId?: string;
+}
+
+export type FakeNotion = FakeServer & {
+  databaseId: string;
+  pages: Map<string, FakePage>;
+  // the properties of the database by name; tests can change it and restore it with resetSchema
+  schema: { [name: string]: NotionPropertyType };
+  // the options of the select properties by name
+  selectOptions: { [name: string]: string[] };
+  resetSchema(): void;
+  addTask(fields: TaskFields): string;
+  editTask(pageId: string, fields: TaskFields): void;
+  archiveTask(pageId: string): void;
+  setBody(pageId: string, blocks: any[]): void;
+  getTask(pageId: string): TaskFields & { id: string, archived: boolean, descriptionRichText: any[], body: any[] };
+  activeTasks(): (TaskFields & { id: string, descriptionRichText: any[], body: any[] })[];
+}
+
+export const TASK_SCHEMA: { [name: string]: NotionPropertyType } = {
+  "Name": "title",
+  "Due date": "date",
+  "Description": "rich_text",
+  "Area": "select",
+  "Status": "status",
+  "Morgen Event ID": "rich_text",
+  "Last Update": "last_edited_time",
+};
+
+export const STATUS_OPTIONS = ["Not started", "In progress", "Done"];
+
+const TASK_FIELD_PROPERTIES: { [field in keyof TaskFields]: string } = {
+  title: "Name",
+  dueDate: "Due date",
+  description: "Description",
+  area: "Area",
+  status: "Status",
+  morgenEventId: "Morgen Event ID",
+};
+
+/**
+ * Starts a fake Notion API with a single task database.
+ *
+ * @param {{ [name: string]: NotionPropertyType }} [schema] - The properties of the database.
+ * @returns {Promise<FakeNotion>} - The running fake.
+ */
+export async function startFakeNotion(initialSchema = TASK_SCHEMA): Promise<FakeNotion> {
+  const databaseId = randomUUID();
+  const schema = { ...initialSchema };
+  const selectOptions: { [name: string]: string[] } = {};
+  const pages = new Map<string, FakePage>();
+  const now = createClock();
+
+  const server = await startFakeServer(request => handleRequest(request));
+
+  function handleRequest(request: FakeRequest): FakeResponse {
+    let match: RegExpExecArray | null;
+
+    if (request.method === "GET" && (match = /^\/v1\/databases\/([^/]+)$/.exec(request.path))) {
+      if (match[1] !== databaseId) {
+        return notFound(match[1]);
+      }
+      return { status: 200, body: renderDatabase() };
+    }
+
+    if (request.method === "PATCH" && (match = /^\/v1\/databases\/([^/]+)$/.exec(request.path))) {
+      if (match[1] !== databaseId) {
+        return notFound(match[1]);
+      }
+      updateSchema(request.body.properties ?? {});
+      return { status: 200, body: renderDatabase() };
+    }
+
+    if (request.method === "POST" && (match = /^\/v1\/databases\/([^/]+)\/query$/.exec(request.path))) {
+      if (match[1] !== databaseId) {
+        return notFound(match[1]);
+      }
+      return { status: 200, body: queryDatabase(request.body ?? {}) };
+    }
+
+    if (request.method === "GET" && (match = /^\/v1\/pages\/([^/]+)$/.exec(request.path))) {
+      const page = pages.get(match[1]);
+      return page ? { status: 200, body: renderPage(page) } : notFound(match[1]);
+    }
+
+    if (request.method === "PATCH" && (match = /^\/v1\/pages\/([^/]+)$/.exec(request.path))) {
+      const page = pages.get(match[1]);
+      if (!page) {
+        return notFound(match[1]);
+      }
+      if (request.body.properties) {
+        writeProperties(page, request.body.properties);
+      }
+      if (typeof request.body.archived === "boolean") {
+        page.archived = request.body.archived;
+      }
+      page.last_edited_time = now();
+      return { status: 200, body: renderPage(page) };
+    }
+
+    if (request.method === "POST" && request.path === "/v1/pages") {
+      if (request.body.parent?.database_id !== databaseId) {
+        return notFound(request.body.parent?.database_id);
+      }
+      const page = newPage();
+      writeProperties(page, request.body.properties ?? {});
+      appendBlocks(page, request.body.children ?? []);
+      pages.set(page.id, page);
+      return { status: 200, body: renderPage(page) };
+    }
+
+    if (request.method === "GET" && (match = /^\/v1\/blocks\/([^/]+)\/children$/.exec(request.path))) {
+      const page = pages.get(match[1]);
+      if (!page) {
+        return notFound(match[1]);
+      }
+      const start = Number(request.query.get("start_cursor") ?? 0);
+      const pageSize = Number(request.query.get("page_size") ?? 100);
+      const results = page.blocks.slice(start, start + pageSize);
+      const hasMore = start + pageSize < page.blocks.length;
+      return { status: 200, body: { object: "list", results, has_more: hasMore, next_cursor: hasMore ? String(start + pageSize) : null } };
+    }
+
+    if (request.method === "PATCH" && (match = /^\/v1\/blocks\/([^/]+)\/children$/.exec(request.path))) {
+      const page = pages.get(match[1]);
+      if (!page) {
+        return notFound(match[1]);
+      }
+      appendBlocks(page, request.body.children ?? []);
+      page.last_edited_time = now();
+      return { status: 200, body: { object: "list", results: page.blocks, has_more: false, next_cursor: null } };
+    }
+
+    return { status: 404, body: { object: "error", status: 404, code: "invalid_request_url", message: `No route for ${request.method} ${request.path}` } };
+  }
+
+  function newPage(): FakePage {
+    const timestamp = now();
+    return { id: randomUUID(), archived: false, created_time: timestamp, last_edited_time: timestamp, properties: {}, blocks: [] };
+  }
+
+  function appendBlocks(page: FakePage, children: any[]) {
+    if (children.length > 100) {
+      const message = `body failed validation: body.children.length should be ≤ \`100\`, instead was \`${children.length}\`.`;
+      throw httpError(400, { object: "error", status: 400, code: "validation_error", message });
+    }
+    for (const child of children) {
+      const content = child[child.type];
+      page.blocks.push({
+        object: "block",
+        id: randomUUID(),
+        type: child.type,
+        has_children: false,
+        [child.type]: {
+          ...content,
+          rich_text: renderRichText(content.rich_text),
+        },
+      });
+    }
+  }
+
+  function writeProperties(page: FakePage, properties: { [name: string]: any }) {
+    for (const name of Object.keys(properties)) {
+      const type = schema[name];
+      if (!type || type === "last_edited_time") {
+        const message = `${name} is not a property that exists or can be written.`;
+        throw httpError(400, { object: "error", status: 400, code: "validation_error", message });
+      }
+      const value = properties[name][type];
+      if (type === "title" || type === "rich_text") {
+        if ((value ?? []).length > 100) {
+          const message = `body failed validation: body.properties.${name}.${type}.length should be ≤ \`100\`, instead was \`${value.length}\`.`;
+          throw httpError(400, { object: "error", status: 400, code: "validation_error", message });
+        }
+        const tooLong = (value ?? []).find(part => part.text.content.length > 2000);
+        if (tooLong) {
+          const message = `body failed validation: body.properties.${name}.${type}[].text.content.length should be ≤ \`2000\`, instead was \`${tooLong.text.content.length}\`.`;
+          throw httpError(400, { object: "error", status: 400, code: "validation_error", message });
+        }
+        page.properties[name] = renderRichText(value);
+      } else {
+        page.properties[name] = value ?? null;
+      }
+    }
+  }
+
+  function renderPage(page: FakePage) {
+    const properties = {};
+    for (const name of Object.keys(schema)) {
+      const type = schema[name];
+      const value = type === "last_edited_time"
+        ? page.last_edited_time
+        : page.properties[name] ?? (type === "title" || type === "rich_text" ? [] : null);
+      properties[name] = { id: name, type, [type]: value };
+    }
+    return {
+      object: "page",
+      id: page.id,
+      created_time: page.created_time,
+      last_edited_time: page.last_edited_time,
+      archived: page.archived,
+      parent: { type: "database_id", database_id: databaseId },
+      properties,
+    };
+  }
+
+  function queryDatabase(body: any) {
+    const matching = [...pages.values()]
+      .filter(page => !page.archived)
+      .map(renderPage)
+      .filter(page => !body.filter || matchesFilter(page, body.filter));
+
+    const start = Number(body.start_cursor ?? 0);
+    const pageSize = body.page_size ?? 100;
+    const results = matching.slice(start, start + pageSize);
+    const hasMore = start + pageSize < matching.length;
+
+    return { object: "list", results, has_more: hasMore, next_cursor: hasMore ? String(start + pageSize) : null };
+  }
+
+  function matchesFilter(page: any, filter: any): boolean {
+    if (filter.and) {
+      return filter.and.every(part => matchesFilter(page, part));
+    }
+    if (filter.or) {
+      return filter.or.some(part => matchesFilter(page, part));
+    }
+    if (filter.timestamp === "last_edited_time") {
+      return matchesDate(page.last_edited_time, filter.last_edited_time);
+    }
+    if (filter.date) {
+      const property = page.properties[filter.property];
+      return matchesDate(property?.date?.start ?? null, filter.date);
+    }
+    throw new Error(`Unsupported filter ${JSON.stringify(filter)}`);
+  }
+
+  function matchesDate(value: string | null, condition: any): boolean {
+    if (condition.is_empty) {
+      return value === null;
+    }
+    if (value === null) {
+      return false;
+    }
+    const time = Date.parse(value);
+    if (condition.on_or_after && time < Date.parse(condition.on_or_after)) return false;
+    if (condition.on_or_before && time > Date.parse(condition.on_or_before)) return false;
+    if (condition.after && time <= Date.parse(condition.after)) return false;
+    if (condition.before && time >= Date.parse(condition.before)) return false;
+    return true;
+  }
+
+  function renderDatabase() {
+    const properties = {};
+    for (const name of Object.keys(schema)) {
+      const type = schema[name];
+      const optionNames = type === "status" ? STATUS_OPTIONS : selectOptions[name] ?? [];
+      const options = optionNames.map(option => ({ id: option, name: option, color: "default" }));
+      properties[name] = { id: name, name, type, [type]: type === "status" || type === "select" ? { options } : {} };
+    }
+    return { object: "database", id: databaseId, title: [], properties };
+  }
+
+  function updateSchema(properties: { [name: string]: any }) {
+    for (const name of Object.keys(properties)) {
+      const type = Object.keys(properties[name]).find(key => key !== "name") as NotionPropertyType;
+      if (schema[name] && schema[name] !== type) {
+        throw httpError(400, { object: "error", status: 400, code: "validation_error", message: `Cannot change the type of ${name}.` });
+      }
+      schema[name] = type;
+      if (type === "select") {
+        // like Notion, the update replaces the options, so existing ones must be sent again
+        selectOptions[name] = properties[name].select.options.map(option => option.name);
+      }
+    }
+  }
+
+  function toProperties(fields: TaskFields) {
+    const properties = {};
+    for (const field of Object.keys(fields)) {
+      if (field === "dueDateEnd") {
+        continue;
+      }
+      const name = TASK_FIELD_PROPERTIES[field];
+      const type = schema[name];
+      const value = fields[field];
+      if (type === "title" || type === "rich_text") {
+        properties[name] = { [type]: Array.isArray(value) ? value : value ? [{ text: { content: value } }] : [] };
+      } else if (type === "date") {
+        properties[name] = { date: { start: value, end: fields.dueDateEnd ?? null } };
+      } else {
+        properties[name] = { [type]: { name: value } };
+      }
+    }
+    return properties;
+  }
+
+  function readTask(page: FakePage) {
+    const text = (name: string) => (page.properties[name] ?? []).map(part => part.plain_text).join('');
+    return {
+      id: page.id,
+      archived: page.archived,
+      title: text("Name"),
+      dueDate: page.properties["Due date"]?.start,
+      dueDateEnd: page.properties["Due date"]?.end ?? null,
+      description: text("Description"),
+      descriptionRichText: page.properties["Description"] ?? [],
+      body: page.blocks,
+      area: page.properties["Area"]?.name,
+      status: page.properties["Status"]?.name,
+      morgenEventId: text("Morgen Event ID"),
+    };
+  }
+
+  return {
+    ...server,
+    databaseId,
+    pages,
+    schema,
+    selectOptions,
+    resetSchema() {
+      for (const name of Object.keys(schema)) {
+        delete schema[name];
+      }
+      for (const name of Object.keys(selectOptions)) {
+        delete selectOptions[name];
+      }
+      Object.assign(schema, initialSchema);
+    },
+    addTask(fields) {
+      const page = newPage();
+      writeProperties(page, toProperties({ area: "School", status: "Not started", description: "notes", ...fields }));
+      pages.set(page.id, page);
+      return page.id;
+    },
+    editTask(pageId, fields) {
+      const page = pages.get(pageId)!;
+      writeProperties(page, toProperties(fields));
+      page.last_edited_time = now();
+    },
+    archiveTask(pageId) {
+      const page = pages.get(pageId)!;
+      page.archived = true;
+      page.last_edited_time = now();
+    },
+    setBody(pageId, blocks) {
+      const page = pages.get(pageId)!;
+      page.blocks = [];
+      appendBlocks(page, blocks);
+      page.last_edited_time = now();
+    },
+    getTask(pageId) {
+      return readTask(pages.get(pageId)!);
+    },
+    activeTasks() {
+      return [...pages.values()].filter(page => !page.archived).map(readTask);
+    },
+  };
+}
+
+function renderRichText(parts: any[] | undefined) {
+  // like Notion, empty text objects are dropped
+  return (parts ?? []).filter(part => part.text.content).map(part => ({
+    type: "text",
+    text: { content: part.text.content, link: part.text.link ?? null },
+    plain_text: part.text.content,
+    annotations: part.annotations ?? {},
+    href: part.text.link?.url ?? null,
+  }));
+}
+
+function notFound(id: string): FakeResponse {
+  return {
+    status: 404,
+    body: { object: "error", status: 404, code: "object_not_found", message: `Could not find object with ID: ${id}.` },
+  };
+}
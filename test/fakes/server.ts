@@ -0,0 +1,121 @@
+/**
+ * Shared plumbing for the fake API servers: a small JSON HTTP server with scripted failures.
+ */
+
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export type FakeRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: any;
+}
+
+export type FakeResponse = {
+  status: number;
+  body?: any;
+  headers?: { [name: string]: string };
+}
+
+export type FakeFailure = FakeResponse & {
+  method: string;
+  path: RegExp;
+  times: number;
+  // the request is still carried out, as if only its response was lost
+  processed?: boolean;
+}
+
+export type FakeServer = {
+  url: string;
+  requests: FakeRequest[];
+  failNext(method: string, path: RegExp, response: FakeResponse & { processed?: boolean }, times?: number): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a JSON HTTP server on a free local port.
+ * Scripted failures are answered before the handler is called, so a test can make an endpoint
+ * return errors for a number of requests and then recover.
+ *
+ * @param {(request: FakeRequest) => FakeResponse} handler - Answers a request.
+ * @returns {Promise<FakeServer>} - The running server.
+ */
+export async function startFakeServer(handler: (request: FakeRequest) => FakeResponse): Promise<FakeServer> {
+  const requests: FakeRequest[] = [];
+  const failures: FakeFailure[] = [];
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", chunk => raw += chunk);
+    req.on("end", () => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      const request: FakeRequest = {
+        method: req.method ?? "GET",
+        path: url.pathname,
+        query: url.searchParams,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(request);
+
+      const failure = failures.find(failure => failure.times > 0 && failure.method === request.method && failure.path.test(request.path));
+      let response: FakeResponse;
+      if (failure) {
+        failure.times--;
+        if (failure.processed) {
+          try {
+            handler(request);
+          } catch (error) {
+            // the failure is answered either way
+          }
+        }
+        response = failure;
+      } else {
+        try {
+          response = handler(request);
+        } catch (error) {
+          response = { status: error.status ?? 500, body: error.body ?? { message: error.message } };
+        }
+      }
+
+      res.writeHead(response.status, { "Content-Type": "application/json", ...response.headers });
+      res.end(response.body === undefined ? "" : JSON.stringify(response.body));
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    failNext(method, path, response, times = 1) {
+      failures.push({ ...response, method, path, times });
+    },
+    close() {
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Creates an error that the fake server answers with the given status and body.
+ *
+ * @param {number} status - The HTTP status of the response.
+ * @param {any} body - The response body.
+ * @returns {Error} - The error to throw from a handler.
+ */
+export function httpError(status: number, body: any): Error {
+  return Object.assign(new Error(body.message), { status, body });
+}
+
+/**
+ * Returns a new timestamp for every call, so edits made within the same millisecond stay ordered.
+ */
+export function createClock(): () => string {
+  let last = 0;
+  return () => {
+    last = Math.max(Date.now(), last + 1);
+    return new Date(last).toISOString();
+  };
+}
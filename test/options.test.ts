@@ -0,0 +1,142 @@
+/**
+ * Scenarios for options that change how every item is synced and so need a config of their own:
+ * descriptions in the Notion page body (notion.pageBody) and conflicts settled by hand (sync.conflictPolicy "manual").
+ * Everything runs offline against the in-process fakes, like test/sync.test.ts.
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import * as assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { DateTime } from "luxon";
+import { FakeNotion, startFakeNotion } from "./fakes/notion";
+import { FakeMorgen, startFakeMorgen } from "./fakes/morgen";
+import { formatPlanAsText, getFailedActions } from "../plan";
+
+const TIME_ZONE = "Europe/Berlin";
+
+let notion: FakeNotion;
+let morgen: FakeMorgen;
+let sync: typeof import("../index");
+let tempDir: string;
+let stateCount = 0;
+
+/**
+ * Returns tomorrow at the given UTC hour, well inside the sync window.
+ */
+function tomorrowAt(hour: number): DateTime {
+  return DateTime.utc().plus({ days: 1 }).set({ hour, minute: 0, second: 0, millisecond: 0 });
+}
+
+/**
+ * Formats a time the way Morgen stores event starts: the local time in the configured zone.
+ */
+function morgenStart(dateTime: DateTime): string {
+  return dateTime.setZone(TIME_ZONE).toFormat("yyyy-MM-dd'T'HH:mm:ss");
+}
+
+before(async () => {
+  notion = await startFakeNotion();
+  morgen = await startFakeMorgen();
+  tempDir = mkdtempSync(path.join(tmpdir(), "morgennotion-test-"));
+
+  const configPath = path.join(tempDir, "config.json");
+  writeFileSync(configPath, JSON.stringify({
+    requests: { rateLimits: { notion: 1000, morgen: 1000 }, maxRetries: 2, initialBackoffMs: 1, maxBackoffMs: 5 },
+    sync: { timeZone: TIME_ZONE, conflictPolicy: "manual" },
+    notion: { pageBody: true },
+  }));
+
+  process.env.MORGENNOTION_CONFIG = configPath;
+  process.env.NOTION_KEY = "test-key";
+  process.env.NOTION_API_URL = notion.url;
+  process.env.NOTION_DATABASE_ID = notion.databaseId;
+  process.env.MORGEN_API_URL = morgen.url;
+  process.env.MORGEN_API_KEY = "test-key";
+  process.env.MORGEN_ACCOUNT_ID = morgen.accountId;
+  process.env.MORGEN_CALENDAR_ID = morgen.calendarId;
+
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+  mock.method(console, "error", () => {});
+
+  sync = await import("../index");
+});
+
+beforeEach(async () => {
+  notion.pages.clear();
+  notion.resetSchema();
+  morgen.events.clear();
+  process.env.SYNC_STATE_PATH = path.join(tempDir, `state-${++stateCount}.json`);
+  process.env.SYNC_LINKS_PATH = path.join(tempDir, `links-${stateCount}.json`);
+  process.env.BACKFILL_PROGRESS_PATH = path.join(tempDir, `backfill-${stateCount}.json`);
+  sync.setDryRun(false);
+  await sync.loadState();
+});
+
+after(async () => {
+  mock.restoreAll();
+  await notion.close();
+  await morgen.close();
+});
+
+describe("page body", () => {
+  it("keeps syncing a page created from a Morgen event with its description in the body", async () => {
+    const eventId = morgen.addEvent({ title: "Team meeting", description: "Agenda for **Monday**", start: morgenStart(tomorrowAt(10)), timeZone: TIME_ZONE });
+
+    await sync.main();
+    const task = notion.activeTasks()[0];
+    assert.equal(task.description, "");
+    assert.equal(task.body[0].paragraph.rich_text[1].plain_text, "Monday");
+
+    await sync.main();
+    morgen.editEvent(eventId, { title: "Team meeting moved" });
+    const plan = await sync.main();
+
+    assert.deepEqual(getFailedActions(plan), []);
+    assert.ok(plan.actions.some(action => action.type === "update" && action.target === "notion"));
+    assert.equal(notion.activeTasks().length, 1);
+    assert.equal(notion.getTask(task.id).title, "Team meeting moved");
+    assert.equal(morgen.events.size, 1);
+  });
+
+  it("keeps the page of a Morgen event linked when the rest of its body can't be written", async () => {
+    const description = Array.from({ length: 150 }, (_, index) => `Paragraph ${index + 1}`).join("\n\n");
+    const eventId = morgen.addEvent({ title: "Long agenda", description, start: morgenStart(tomorrowAt(10)), timeZone: TIME_ZONE });
+    notion.failNext("PATCH", /\/v1\/blocks\/[^/]+\/children$/, { status: 400, body: { object: "error", status: 400, code: "validation_error", message: "rejected" } });
+
+    const plan = await sync.main();
+
+    const failed = getFailedActions(plan);
+    assert.deepEqual(failed.map(action => [action.type, action.target]), [["update", "notion"]]);
+    const task = notion.activeTasks()[0];
+    assert.equal(failed[0].id, task.id);
+    assert.equal(task.morgenEventId, eventId);
+    assert.equal(task.body.length, 100);
+
+    await sync.main();
+    await sync.main();
+    assert.equal(notion.activeTasks().length, 1);
+    assert.equal(morgen.getEvent(eventId)!.description, description);
+  });
+});
+
+describe("manual conflicts", () => {
+  it("reports a field changed on both sides in the plan and leaves both sides alone", async () => {
+    const pageId = notion.addTask({ title: "Write report", dueDate: tomorrowAt(15).toISO()! });
+    await sync.main();
+    await sync.main();
+    const eventId = notion.getTask(pageId).morgenEventId!;
+
+    notion.editTask(pageId, { title: "Write final report" });
+    morgen.editEvent(eventId, { title: "Write short report" });
+    const plan = await sync.main();
+
+    assert.deepEqual(plan.conflicts.map(conflict => [conflict.field, conflict.notion, conflict.morgen]),
+      [["title", "Write final report", "Write short report"]]);
+    assert.match(formatPlanAsText(plan), /Conflicts to settle by hand/);
+    assert.equal(notion.getTask(pageId).title, "Write final report");
+    assert.equal(morgen.getEvent(eventId)!.title, "Write short report");
+  });
+});
@@ -0,0 +1,1099 @@
+/**
+ * End-to-end scenarios for the sync, run against in-process fakes of the Notion and Morgen APIs.
+ * Everything runs offline: `npx tsx --test test/*.test.ts` (or any runner for node:test).
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import * as assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { spawnSync } from "child_process";
+import * as http from "http";
+import { hostname } from "os";
+import { tmpdir } from "os";
+import * as path from "path";
+import { DateTime } from "luxon";
+import { FakeNotion, startFakeNotion } from "./fakes/notion";
+import { FakeMorgen, startFakeMorgen } from "./fakes/morgen";
+import { MORGEN_WEBHOOK_PATH, NOTION_WEBHOOK_PATH, signPayload, startWebhookServer, WebhookServer } from "../webhooks";
+import { startScheduler } from "../scheduler";
+import { acquireLock, LockError, SyncLock } from "../lock";
+import { getFailedActions } from "../plan";
+import { resolveRecurringEvents } from "../recurrence";
+
+const TIME_ZONE = "Europe/Berlin";
+
+let notion: FakeNotion;
+let morgen: FakeMorgen;
+let sync: typeof import("../index");
+let tempDir: string;
+let stateCount = 0;
+
+/**
+ * Returns tomorrow at the given UTC hour, well inside the sync window.
+ */
+function tomorrowAt(hour: number): DateTime {
+  return DateTime.utc().plus({ days: 1 }).set({ hour, minute: 0, second: 0, millisecond: 0 });
+}
+
+/**
+ * Formats a time the way the sync reads Notion due dates.
+ */
+function notionDate(dateTime: DateTime): string {
+  return dateTime.toISO()!;
+}
+
+/**
+ * Formats a time the way Morgen stores event starts: the local time in the configured zone.
+ */
+function morgenStart(dateTime: DateTime): string {
+  return dateTime.setZone(TIME_ZONE).toFormat("yyyy-MM-dd'T'HH:mm:ss");
+}
+
+/**
+ * Creates a Notion task, lets the sync create its Morgen event and settles both sides.
+ */
+async function createLinkedPair(title = "Write report"): Promise<{ pageId: string, eventId: string }> {
+  const pageId = notion.addTask({ title, dueDate: notionDate(tomorrowAt(15)) });
+  await sync.main();
+  await sync.main();
+  const eventId = notion.getTask(pageId).morgenEventId!;
+  assert.ok(morgen.getEvent(eventId), "the Morgen event should have been created");
+  return { pageId, eventId };
+}
+
+before(async () => {
+  notion = await startFakeNotion();
+  morgen = await startFakeMorgen();
+  tempDir = mkdtempSync(path.join(tmpdir(), "morgennotion-test-"));
+
+  const configPath = path.join(tempDir, "config.json");
+  writeFileSync(configPath, JSON.stringify({
+    requests: { rateLimits: { notion: 1000, morgen: 1000 }, maxRetries: 2, initialBackoffMs: 1, maxBackoffMs: 5 },
+    sync: { timeZone: TIME_ZONE, incremental: true },
+    morgen: { calendars: { Work: { accountId: "account-1", calendarId: "calendar-work" } } },
+    status: { enabled: true },
+    matching: { enabled: true },
+  }));
+
+  process.env.MORGENNOTION_CONFIG = configPath;
+  process.env.NOTION_KEY = "test-key";
+  process.env.NOTION_API_URL = notion.url;
+  process.env.NOTION_DATABASE_ID = notion.databaseId;
+  process.env.MORGEN_API_URL = morgen.url;
+  process.env.MORGEN_API_KEY = "test-key";
+  process.env.MORGEN_ACCOUNT_ID = morgen.accountId;
+  process.env.MORGEN_CALENDAR_ID = morgen.calendarId;
+
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+  mock.method(console, "error", () => {});
+
+  sync = await import("../index");
+});
+
+beforeEach(async () => {
+  notion.pages.clear();
+  notion.resetSchema();
+  morgen.events.clear();
+  process.env.SYNC_STATE_PATH = path.join(tempDir, `state-${++stateCount}.json`);
+  process.env.SYNC_LINKS_PATH = path.join(tempDir, `links-${stateCount}.json`);
+  process.env.BACKFILL_PROGRESS_PATH = path.join(tempDir, `backfill-${stateCount}.json`);
+  sync.setDryRun(false);
+  sync.setFullSync(false);
+  sync.setCreateUnmatched(false);
+  await sync.loadState();
+});
+
+after(async () => {
+  mock.restoreAll();
+  await notion.close();
+  await morgen.close();
+});
+
+describe("creating items", () => {
+  it("creates a Morgen event for a new Notion task and links both", async () => {
+    const pageId = notion.addTask({ title: "Write report", description: "draft", dueDate: notionDate(tomorrowAt(15)) });
+
+    await sync.main();
+
+    const events = [...morgen.events.values()];
+    assert.equal(events.length, 1);
+    assert.equal(events[0].title, "Write report");
+    assert.equal(events[0].start, morgenStart(tomorrowAt(15)));
+    assert.equal(events[0].description, "draft");
+    assert.equal(notion.getTask(pageId).morgenEventId, events[0].id);
+  });
+
+  it("creates a Notion task for a new Morgen event and links both", async () => {
+    const eventId = morgen.addEvent({ title: "Dentist", description: "bring card", start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+
+    await sync.main();
+
+    const tasks = notion.activeTasks();
+    assert.equal(tasks.length, 1);
+    assert.equal(tasks[0].title, "Dentist");
+    assert.equal(tasks[0].description, "bring card");
+    assert.equal(tasks[0].morgenEventId, eventId);
+    assert.equal(morgen.getEvent(eventId)!.description, "bring card");
+  });
+
+  it("creates an all-day event on the task's day in the configured time zone", async () => {
+    const day = tomorrowAt(12).toISODate()!;
+    notion.addTask({ title: "Conference", dueDate: day });
+
+    await sync.main();
+
+    const events = [...morgen.events.values()];
+    assert.equal(events.length, 1);
+    assert.equal(events[0].start, `${day}T00:00:00`);
+    assert.equal(events[0].timeZone, TIME_ZONE);
+    assert.equal(events[0].showWithoutTime, true);
+
+    await sync.main();
+    const plan = await sync.main();
+    assert.deepEqual(plan.actions, []);
+  });
+
+  it("syncs items without a description in both directions", async () => {
+    const pageId = notion.addTask({ title: "Call dentist", description: "", dueDate: notionDate(tomorrowAt(15)) });
+    const eventId = morgen.addEvent({ title: "Pick up parcel", start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+
+    await sync.main();
+    await sync.main();
+    const plan = await sync.main();
+
+    assert.deepEqual(plan.actions, []);
+    assert.equal(morgen.getEvent(notion.getTask(pageId).morgenEventId!)!.title, "Call dentist");
+    const task = notion.activeTasks().find(task => task.morgenEventId === eventId)!;
+    assert.equal(task.title, "Pick up parcel");
+    assert.equal(task.description, "");
+  });
+
+  it("does nothing on a first run with already linked items", async () => {
+    const eventId = morgen.addEvent({ title: "Standup", description: "notes", start: morgenStart(tomorrowAt(10)), timeZone: TIME_ZONE });
+    notion.addTask({ title: "Standup", dueDate: notionDate(tomorrowAt(10)), morgenEventId: eventId });
+
+    const plan = await sync.main();
+
+    assert.deepEqual(plan.actions, []);
+    assert.equal(morgen.events.size, 1);
+    assert.equal(notion.activeTasks().length, 1);
+  });
+
+  it("only plans the creation in dry-run mode", async () => {
+    notion.addTask({ title: "Plan only", dueDate: notionDate(tomorrowAt(15)) });
+    sync.setDryRun(true);
+
+    const plan = await sync.main();
+
+    assert.equal(plan.actions.length, 1);
+    assert.equal(plan.actions[0].type, "create");
+    assert.equal(plan.actions[0].target, "morgen");
+    assert.equal(morgen.events.size, 0);
+  });
+});
+
+describe("editing items", () => {
+  it("pushes a Notion edit to Morgen", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.editTask(pageId, { title: "Write final report" });
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId)!.title, "Write final report");
+  });
+
+  it("pushes a Morgen edit to Notion", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    morgen.editEvent(eventId, { start: morgenStart(tomorrowAt(18)) });
+    await sync.main();
+
+    assert.equal(notion.getTask(pageId).dueDate, notionDate(tomorrowAt(18)));
+  });
+
+  it("writes a longer Morgen event back to Notion as a date range", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    morgen.editEvent(eventId, { duration: "PT3H" });
+    await sync.main();
+
+    assert.equal(notion.getTask(pageId).dueDate, notionDate(tomorrowAt(15)));
+    assert.equal(notion.getTask(pageId).dueDateEnd, notionDate(tomorrowAt(18)));
+  });
+
+  it("sets the Morgen duration from a Notion date range", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.editTask(pageId, { dueDate: notionDate(tomorrowAt(15)), dueDateEnd: notionDate(tomorrowAt(17)) });
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId)!.duration, "PT2H");
+  });
+
+  it("keeps concurrent edits to different fields on both sides", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.editTask(pageId, { title: "Renamed in Notion" });
+    morgen.editEvent(eventId, { start: morgenStart(tomorrowAt(17)) });
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId)!.title, "Renamed in Notion");
+    assert.equal(morgen.getEvent(eventId)!.start, morgenStart(tomorrowAt(17)));
+    assert.equal(notion.getTask(pageId).title, "Renamed in Notion");
+    assert.equal(notion.getTask(pageId).dueDate, notionDate(tomorrowAt(17)));
+  });
+});
+
+describe("descriptions", () => {
+  const bold = { bold: true, italic: false, strikethrough: false, underline: false, code: false, color: "default" };
+
+  it("keeps bold text and links in Notion through a Morgen edit", async () => {
+    const pageId = notion.addTask({
+      title: "Read paper",
+      dueDate: notionDate(tomorrowAt(15)),
+      description: [
+        { text: { content: "Read " } },
+        { text: { content: "carefully" }, annotations: bold },
+        { text: { content: " the draft", link: { url: "https://example.com/draft" } } },
+      ],
+    });
+    await sync.main();
+    await sync.main();
+    const eventId = notion.getTask(pageId).morgenEventId!;
+    assert.equal(morgen.getEvent(eventId)!.description, "Read **carefully**[ the draft](https://example.com/draft)");
+
+    morgen.editEvent(eventId, { title: "Read paper again" });
+    await sync.main();
+
+    const richText = notion.getTask(pageId).descriptionRichText;
+    assert.equal(notion.getTask(pageId).title, "Read paper again");
+    assert.equal(notion.getTask(pageId).description, "Read carefully the draft");
+    assert.equal(richText[1].annotations.bold, true);
+    assert.equal(richText[2].href, "https://example.com/draft");
+  });
+
+  it("splits a long Morgen description into several Notion text objects", async () => {
+    const description = "a".repeat(4500);
+    morgen.addEvent({ title: "Long notes", description, start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+
+    await sync.main();
+
+    const tasks = notion.activeTasks();
+    assert.equal(tasks.length, 1);
+    assert.equal(tasks[0].description, description);
+    assert.equal(tasks[0].descriptionRichText.length, 3);
+  });
+
+  it("merges the formatting runs of a description beyond the Notion element limit into plain text", async () => {
+    const description = Array.from({ length: 80 }, (_, index) => `**step ${index + 1}** done`).join(", ");
+    morgen.addEvent({ title: "Checklist", description, start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+
+    const plan = await sync.main();
+
+    assert.deepEqual(getFailedActions(plan), []);
+    const task = notion.activeTasks()[0];
+    assert.equal(task.descriptionRichText.length, 100);
+    assert.equal(task.descriptionRichText[0].annotations.bold, true);
+    assert.equal(task.descriptionRichText[99].annotations.bold, false);
+    assert.equal(task.description, description.replace(/\*\*/g, ""));
+
+    await sync.main();
+    assert.deepEqual((await sync.main()).actions, []);
+  });
+
+  it("writes the Morgen description as blocks into the body of a new page", async () => {
+    const description = "Agenda for **Monday**\n\n## Prepare\n- [x] book room\n- [ ] slides\n- print handouts";
+    morgen.addEvent({ title: "Team meeting", description, start: morgenStart(tomorrowAt(10)), timeZone: TIME_ZONE });
+
+    await sync.main();
+
+    const body = notion.activeTasks()[0].body;
+    assert.deepEqual(body.map(block => block.type), ["paragraph", "heading_2", "to_do", "to_do", "bulleted_list_item"]);
+    assert.equal(body[0].paragraph.rich_text[1].annotations.bold, true);
+    assert.equal(body[2].to_do.checked, true);
+    assert.equal(body[3].to_do.rich_text[0].plain_text, "slides");
+  });
+
+  it("ignores a change that only formats the description", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    const updates = morgen.requests.length;
+
+    notion.editTask(pageId, { description: [{ text: { content: "notes" }, annotations: bold }] });
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId)!.description, "notes");
+    assert.ok(!morgen.requests.slice(updates).some(request => request.path.endsWith("/update")));
+  });
+});
+
+describe("deleting items", () => {
+  it("deletes the Morgen event when the Notion task is archived", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.archiveTask(pageId);
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId), undefined);
+  });
+
+  it("counts a retried Morgen delete that finds the event gone as done", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.archiveTask(pageId);
+    morgen.failNext("POST", /\/v3\/events\/delete/, { status: 502, body: { message: "bad gateway" }, processed: true });
+    const plan = await sync.main();
+
+    assert.deepEqual(getFailedActions(plan), []);
+    assert.equal(morgen.getEvent(eventId), undefined);
+  });
+
+  it("archives the Notion task when the Morgen event is deleted", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    morgen.removeEvent(eventId);
+    await sync.main();
+
+    assert.equal(notion.getTask(pageId).archived, true);
+  });
+
+  it("lists the Morgen events around the window once per cycle to find events that left it", async () => {
+    const first = await createLinkedPair("Write report");
+    const second = await createLinkedPair("Review slides");
+    const nextMonth = tomorrowAt(15).plus({ days: 30 });
+    const countListings = () => morgen.requests.filter(request => request.path === "/v3/events/list").length;
+    sync.setFullSync(true);
+
+    let listingsBefore = countListings();
+    await sync.main();
+    const listingsPerCycle = countListings() - listingsBefore;
+
+    morgen.editEvent(first.eventId, { start: morgenStart(nextMonth) });
+    morgen.editEvent(second.eventId, { start: morgenStart(nextMonth) });
+    listingsBefore = countListings();
+    await sync.main();
+
+    assert.equal(countListings() - listingsBefore, 2 * listingsPerCycle);
+    assert.equal(notion.getTask(first.pageId).dueDate, notionDate(nextMonth));
+    assert.equal(notion.getTask(second.pageId).dueDate, notionDate(nextMonth));
+  });
+
+  it("does not delete a Morgen event whose Notion task moved out of the window", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    const nextMonth = tomorrowAt(15).plus({ days: 30 });
+
+    notion.editTask(pageId, { dueDate: notionDate(nextMonth) });
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId)!.start, morgenStart(nextMonth));
+  });
+});
+
+describe("status", () => {
+  it("prefixes the Morgen title when the Notion task is done", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.editTask(pageId, { status: "Done" });
+    await sync.main();
+    assert.equal(morgen.getEvent(eventId)!.title, "✓ Write report");
+
+    const plan = await sync.main();
+    assert.deepEqual(plan.actions, []);
+    assert.equal(notion.getTask(pageId).title, "Write report");
+  });
+
+  it("marks the Notion task done when the Morgen event is prefixed", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    morgen.editEvent(eventId, { title: "✓ Write report" });
+    await sync.main();
+
+    assert.equal(notion.getTask(pageId).status, "Done");
+    assert.equal(notion.getTask(pageId).title, "Write report");
+  });
+
+  it("reads a sync state saved by version 1 as open events with the default status and Area", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    const state = JSON.parse(readFileSync(process.env.SYNC_STATE_PATH!, "utf8"));
+    for (const eventPair of Object.values<any>(state.eventMap)) {
+      for (const side of [eventPair.notion, eventPair.morgen]) {
+        for (const field of ["status", "area", "accountId", "calendarId", "isSeries", "hasLinkTag"]) {
+          delete side[field];
+        }
+      }
+    }
+    writeFileSync(process.env.SYNC_STATE_PATH!, JSON.stringify({ version: 1, savedAt: state.savedAt, eventMap: state.eventMap }));
+    await sync.loadState();
+
+    morgen.editEvent(eventId, { title: "✓ Write report" });
+    await sync.main();
+
+    assert.equal(notion.getTask(pageId).status, "Done");
+    assert.equal(morgen.getEvent(eventId)!.title, "✓ Write report");
+    assert.equal(JSON.parse(readFileSync(process.env.SYNC_STATE_PATH!, "utf8")).version, 2);
+  });
+
+  it("removes the prefix when the Notion task is reopened", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    notion.editTask(pageId, { status: "Done" });
+    await sync.main();
+
+    notion.editTask(pageId, { status: "In progress" });
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId)!.title, "Write report");
+    assert.equal(notion.getTask(pageId).status, "In progress");
+  });
+});
+
+describe("areas", () => {
+  it("creates the Morgen event in the calendar of the task's Area", async () => {
+    notion.addTask({ title: "Quarterly review", area: "Work", dueDate: notionDate(tomorrowAt(11)) });
+
+    await sync.main();
+
+    const events = [...morgen.events.values()];
+    assert.equal(events.length, 1);
+    assert.equal(events[0].calendarId, "calendar-work");
+  });
+
+  it("moves the Morgen event when the Area changes", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.editTask(pageId, { area: "Work" });
+    await sync.main();
+
+    const movedEventId = notion.getTask(pageId).morgenEventId!;
+    assert.notEqual(movedEventId, eventId);
+    assert.equal(morgen.getEvent(eventId), undefined);
+    assert.equal(morgen.getEvent(movedEventId)!.calendarId, "calendar-work");
+    assert.equal(morgen.events.size, 1);
+
+    await sync.main();
+    const plan = await sync.main();
+    assert.deepEqual(plan.actions, []);
+  });
+
+  it("keeps the old Morgen event linked when it cannot be deleted after a move", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.editTask(pageId, { area: "Work" });
+    morgen.failNext("POST", /\/v3\/events\/delete/, { status: 400, body: { message: "bad" } });
+    const plan = await sync.main();
+
+    assert.equal(getFailedActions(plan).length, 1);
+    assert.equal(notion.getTask(pageId).morgenEventId, eventId);
+    assert.deepEqual([...morgen.events.keys()], [eventId]);
+
+    await sync.main();
+    const movedEventId = notion.getTask(pageId).morgenEventId!;
+    assert.notEqual(movedEventId, eventId);
+    assert.equal(morgen.getEvent(movedEventId)!.calendarId, "calendar-work");
+    assert.equal(morgen.events.size, 1);
+    assert.equal(notion.activeTasks().length, 1);
+  });
+
+  it("sets the Area of a task created from an event in a mapped calendar", async () => {
+    morgen.addEvent({ title: "Client call", calendarId: "calendar-work", start: morgenStart(tomorrowAt(14)), timeZone: TIME_ZONE });
+
+    await sync.main();
+
+    const tasks = notion.activeTasks();
+    assert.equal(tasks.length, 1);
+    assert.equal(tasks[0].area, "Work");
+  });
+});
+
+describe("recurring events", () => {
+  it("creates one Notion task per occurrence", async () => {
+    const seriesId = morgen.addEvent({
+      title: "Morning run",
+      start: morgenStart(tomorrowAt(7).minus({ days: 1 })),
+      timeZone: TIME_ZONE,
+      recurrenceRules: [{ frequency: "daily", count: 2 }],
+    });
+
+    await sync.main();
+
+    const tasks = notion.activeTasks();
+    assert.equal(tasks.length, 2);
+    const occurrences = morgen.getOccurrences(seriesId);
+    assert.deepEqual(
+      tasks.map(task => task.morgenEventId).sort(),
+      occurrences.map(occurrence => `${seriesId}@${occurrence.recurrenceId}`).sort()
+    );
+
+    await sync.main();
+    const plan = await sync.main();
+    assert.deepEqual(plan.actions, []);
+  });
+
+  it("updates only the edited occurrence", async () => {
+    const seriesId = morgen.addEvent({
+      title: "Morning run",
+      start: morgenStart(tomorrowAt(7).minus({ days: 1 })),
+      timeZone: TIME_ZONE,
+      recurrenceRules: [{ frequency: "daily", count: 2 }],
+    });
+    await sync.main();
+    await sync.main();
+
+    const [first, second] = morgen.getOccurrences(seriesId);
+    const task = notion.activeTasks().find(task => task.morgenEventId === `${seriesId}@${first.recurrenceId}`)!;
+    notion.editTask(task.id, { title: "Long run" });
+    await sync.main();
+
+    const [editedFirst, editedSecond] = morgen.getOccurrences(seriesId);
+    assert.equal(editedFirst.title, "Long run");
+    assert.equal(editedSecond.title, second.title);
+    assert.equal(morgen.getEvent(seriesId)!.title, "Morning run");
+  });
+
+  it("updates an event whose ID contains an @ as a whole", async () => {
+    const eventId = morgen.addEvent({ id: "4f1c2b@google.com", title: "Dentist", start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+    await sync.main();
+    await sync.main();
+
+    const task = notion.activeTasks()[0];
+    notion.editTask(task.id, { title: "Dentist appointment" });
+    const plan = await sync.main();
+
+    assert.deepEqual(getFailedActions(plan), []);
+    assert.equal(morgen.getEvent(eventId)!.title, "Dentist appointment");
+  });
+
+  it("keeps the known start of a series when the window has moved past its first occurrences", () => {
+    const occurrence = (recurrenceId: string) => ({ id: "series-1", masterEventId: "series-1", recurrenceId, start: recurrenceId, timeZone: TIME_ZONE });
+    const events = [occurrence("2030-01-09T07:00:00"), { ...occurrence("2030-01-08T07:00:00"), start: "2030-01-08T09:00:00" }];
+
+    const [series] = resolveRecurringEvents(events, "series");
+    assert.equal(series.start, "2030-01-08T07:00:00");
+
+    const knownStart = DateTime.fromISO("2030-01-01T07:00:00", { zone: TIME_ZONE }).toUTC().toISO()!;
+    assert.equal(resolveRecurringEvents(events, "series", { "series-1": knownStart })[0].start, "2030-01-01T07:00:00");
+
+    const movedStart = DateTime.fromISO("2030-01-01T06:00:00", { zone: TIME_ZONE }).toUTC().toISO()!;
+    assert.equal(resolveRecurringEvents(events, "series", { "series-1": movedStart })[0].start, "2030-01-08T07:00:00");
+  });
+});
+
+describe("links", () => {
+  it("moves the link from a description tag into the link store", async () => {
+    const eventId = morgen.addEvent({ title: "Standup", start: morgenStart(tomorrowAt(10)), timeZone: TIME_ZONE });
+    const pageId = notion.addTask({ title: "Standup", description: "notes", dueDate: notionDate(tomorrowAt(10)), morgenEventId: eventId });
+    morgen.editEvent(eventId, { description: `#PAGEID:${pageId}# notes` });
+
+    await sync.main();
+    assert.equal(morgen.getEvent(eventId)!.description, "notes");
+
+    process.env.SYNC_STATE_PATH = path.join(tempDir, `state-${++stateCount}.json`);
+    await sync.loadState();
+    const plan = await sync.main();
+    assert.deepEqual(plan.actions, []);
+    assert.equal(morgen.events.size, 1);
+    assert.equal(notion.activeTasks().length, 1);
+  });
+
+  it("keeps the link after a restart without description tags", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    await sync.loadState();
+
+    notion.archiveTask(pageId);
+    await sync.main();
+
+    assert.equal(morgen.getEvent(eventId), undefined);
+  });
+});
+
+describe("incremental cycles", () => {
+  const LONG_AGO = "2020-01-01T00:00:00.000Z";
+
+  /**
+   * Makes both sides of a pair look as if they were last edited long before the last cycle.
+   */
+  function markUnchanged(pageId: string, eventId: string) {
+    notion.pages.get(pageId)!.last_edited_time = LONG_AGO;
+    morgen.events.get(eventId)!.updated = LONG_AGO;
+  }
+
+  it("fetches only the items changed since the last cycle", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    const other = await createLinkedPair("Read paper");
+    markUnchanged(pageId, eventId);
+    markUnchanged(other.pageId, other.eventId);
+    notion.editTask(other.pageId, { title: "Read paper twice" });
+    const requestsBefore = notion.requests.length;
+
+    await sync.main();
+
+    const requests = notion.requests.slice(requestsBefore);
+    const query = requests.find(request => request.path.endsWith("/query"))!;
+    assert.equal(query.body.filter.timestamp, "last_edited_time");
+    assert.ok(!requests.some(request => request.path.endsWith(pageId)), "the unchanged page should not be fetched");
+    assert.equal(morgen.getEvent(other.eventId)!.title, "Read paper twice");
+    assert.equal(morgen.getEvent(eventId)!.title, "Write report");
+  });
+
+  it("syncs a changed Morgen event whose Notion page did not change", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    markUnchanged(pageId, eventId);
+
+    morgen.editEvent(eventId, { title: "Write short report" });
+    await sync.main();
+
+    assert.equal(notion.getTask(pageId).title, "Write short report");
+  });
+
+  it("weighs deletions found in an incremental cycle against all linked pairs", async () => {
+    const pairs = [];
+    for (const title of ["Write report", "Read paper", "Review slides", "Book room", "Call supplier"]) {
+      pairs.push(await createLinkedPair(title));
+    }
+    for (const { pageId, eventId } of pairs) {
+      markUnchanged(pageId, eventId);
+    }
+
+    morgen.removeEvent(pairs[0].eventId);
+    morgen.removeEvent(pairs[1].eventId);
+    const plan = await sync.main();
+
+    assert.deepEqual(plan.held, []);
+    assert.equal(notion.getTask(pairs[0].pageId).archived, true);
+    assert.equal(notion.getTask(pairs[1].pageId).archived, true);
+    assert.equal(notion.getTask(pairs[2].pageId).archived, false);
+  });
+
+  it("notices an archived Notion page at the next full reconciliation", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    notion.archiveTask(pageId);
+    markUnchanged(pageId, eventId);
+
+    await sync.main();
+    assert.ok(morgen.getEvent(eventId), "an incremental cycle does not see archived pages");
+
+    sync.setFullSync(true);
+    await sync.main();
+    assert.equal(morgen.getEvent(eventId), undefined);
+  });
+});
+
+describe("webhooks", () => {
+  const NOTION_SECRET = "notion-secret";
+  const MORGEN_SECRET = "morgen-secret";
+  let server: WebhookServer;
+
+  /**
+   * Posts a payload to the webhook receiver, signed with the given secret, and waits until it is synced.
+   */
+  async function post(webhookPath: string, header: string, payload: object, secret: string): Promise<number> {
+    const body = JSON.stringify(payload);
+    const response = await fetch(`${server.url}${webhookPath}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", [header]: signPayload(body, secret) },
+      body,
+    });
+    await server.idle();
+    return response.status;
+  }
+
+  /**
+   * Posts a body to the webhook receiver in the given chunks and resolves with the status, without waiting for the sync.
+   */
+  function postChunks(webhookPath: string, headers: http.OutgoingHttpHeaders, chunks: Buffer[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const request = http.request(`${server.url}${webhookPath}`, { method: "POST", headers }, response => {
+        response.resume();
+        resolve(response.statusCode!);
+      });
+      // the receiver may close the connection while the rest of an oversized body is still being sent
+      request.on("error", reject);
+      for (const chunk of chunks) {
+        request.write(chunk);
+      }
+      request.end();
+    });
+  }
+
+  before(async () => {
+    server = await startWebhookServer({
+      host: "127.0.0.1",
+      port: 0,
+      notionSecret: NOTION_SECRET,
+      morgenSecret: MORGEN_SECRET,
+      databaseId: notion.databaseId,
+      debounceMs: 0,
+      syncChanges: async changes => { await sync.syncItems(changes); },
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("syncs only the Notion page named in a signed event", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+    notion.editTask(pageId, { title: "Write final report" });
+    const requestsBefore = notion.requests.length;
+
+    const status = await post(NOTION_WEBHOOK_PATH, "X-Notion-Signature", {
+      type: "page.properties_updated",
+      entity: { id: pageId, type: "page" },
+      data: { parent: { id: notion.databaseId, type: "database" } },
+    }, NOTION_SECRET);
+
+    assert.equal(status, 200);
+    assert.equal(morgen.getEvent(eventId)!.title, "Write final report");
+    assert.ok(!notion.requests.slice(requestsBefore).some(request => request.path.endsWith("/query")));
+  });
+
+  it("creates a Notion task for a Morgen event named in a notification", async () => {
+    const eventId = morgen.addEvent({ title: "Dentist", start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+
+    const status = await post(MORGEN_WEBHOOK_PATH, "X-Morgen-Signature", { type: "event.created", data: { id: eventId } }, MORGEN_SECRET);
+
+    assert.equal(status, 200);
+    const tasks = notion.activeTasks();
+    assert.equal(tasks.length, 1);
+    assert.equal(tasks[0].morgenEventId, eventId);
+
+    // the next full cycle finds nothing left to do
+    const plan = await sync.main();
+    assert.deepEqual(plan.actions, []);
+  });
+
+  it("rejects a notification with a wrong signature", async () => {
+    const eventId = morgen.addEvent({ title: "Dentist", start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+
+    const status = await post(MORGEN_WEBHOOK_PATH, "X-Morgen-Signature", { type: "event.created", data: { id: eventId } }, "wrong-secret");
+
+    assert.equal(status, 401);
+    assert.equal(notion.activeTasks().length, 0);
+  });
+
+  it("verifies the signature of a body with a character split across chunks", async () => {
+    const eventId = morgen.addEvent({ title: "Dentist", start: morgenStart(tomorrowAt(9)), timeZone: TIME_ZONE });
+    const body = Buffer.from(JSON.stringify({ type: "event.created", data: { id: eventId }, note: "Grüße" }));
+    const split = body.indexOf("ü") + 1;
+
+    const status = await postChunks(MORGEN_WEBHOOK_PATH, { "X-Morgen-Signature": signPayload(body, MORGEN_SECRET) },
+      [body.subarray(0, split), body.subarray(split)]);
+    await server.idle();
+
+    assert.equal(status, 200);
+    assert.equal(notion.activeTasks().length, 1);
+  });
+
+  it("answers an oversized body with 413", async () => {
+    const status = await postChunks(MORGEN_WEBHOOK_PATH, { "X-Morgen-Signature": "sha256=0" },
+      [Buffer.alloc(1024 * 1024 + 1, " ")]);
+
+    assert.equal(status, 413);
+  });
+});
+
+describe("matching", () => {
+  it("links an unlinked task to the matching event instead of creating duplicates", async () => {
+    const eventId = morgen.addEvent({ title: "Write quarterly report.", start: morgenStart(tomorrowAt(15)), timeZone: TIME_ZONE });
+    const pageId = notion.addTask({ title: "Write Quarterly Report", dueDate: notionDate(tomorrowAt(15)) });
+
+    await sync.main();
+
+    assert.equal(morgen.events.size, 1);
+    assert.equal(notion.activeTasks().length, 1);
+    assert.equal(notion.getTask(pageId).morgenEventId, eventId);
+    const plan = await sync.main();
+    assert.deepEqual(plan.actions, []);
+  });
+
+  it("lists close candidates for confirmation and creates nothing", async () => {
+    morgen.addEvent({ title: "Team sync", start: morgenStart(tomorrowAt(10)), timeZone: TIME_ZONE });
+    notion.addTask({ title: "Team sync", dueDate: notionDate(tomorrowAt(10)) });
+    notion.addTask({ title: "Team sync", dueDate: notionDate(tomorrowAt(10)) });
+
+    const plan = await sync.main();
+
+    assert.equal(plan.matches.length, 2);
+    assert.deepEqual(plan.actions, []);
+    assert.equal(morgen.events.size, 1);
+    assert.equal(notion.activeTasks().length, 2);
+  });
+
+  it("creates the items of unconfirmed matches when asked to", async () => {
+    morgen.addEvent({ title: "Team sync", start: morgenStart(tomorrowAt(10)), timeZone: TIME_ZONE });
+    notion.addTask({ title: "Team sync", dueDate: notionDate(tomorrowAt(10)) });
+    notion.addTask({ title: "Team sync", dueDate: notionDate(tomorrowAt(10)) });
+    sync.setCreateUnmatched(true);
+
+    const plan = await sync.main();
+
+    assert.deepEqual(plan.matches, []);
+    assert.equal(morgen.events.size, 3);
+    assert.equal(notion.activeTasks().length, 3);
+  });
+});
+
+describe("backfill", () => {
+  /**
+   * Returns noon of the given number of days ago in the configured zone, well outside the sync window.
+   */
+  function daysAgoAtNoon(days: number): DateTime {
+    return DateTime.now().setZone(TIME_ZONE).startOf("day").minus({ days }).set({ hour: 12 });
+  }
+
+  function isoDaysAgo(days: number): string {
+    return daysAgoAtNoon(days).toISODate()!;
+  }
+
+  it("creates events for unlinked tasks page by page and links matching events", async () => {
+    const firstPageId = notion.addTask({ title: "Old essay", dueDate: notionDate(daysAgoAtNoon(55)) });
+    const secondPageId = notion.addTask({ title: "Old exam", dueDate: notionDate(daysAgoAtNoon(45)) });
+    const matchedPageId = notion.addTask({ title: "Lab report", dueDate: notionDate(daysAgoAtNoon(50)) });
+    const eventId = morgen.addEvent({ title: "Lab report", start: morgenStart(daysAgoAtNoon(50)), timeZone: TIME_ZONE });
+
+    const report = await sync.backfill("notion-to-morgen", isoDaysAgo(60), isoDaysAgo(40));
+
+    assert.equal(report.complete, true);
+    assert.deepEqual(report.created.map(item => item.title), ["Old essay", "Old exam"]);
+    assert.deepEqual(report.linked.map(item => item.morgenEventId), [eventId]);
+    assert.equal(morgen.events.size, 3);
+    assert.equal(notion.getTask(matchedPageId).morgenEventId, eventId);
+    assert.ok(morgen.getEvent(notion.getTask(firstPageId).morgenEventId!));
+    assert.ok(morgen.getEvent(notion.getTask(secondPageId).morgenEventId!));
+  });
+
+  it("resumes at the page whose actions failed", async () => {
+    const linkedEventId = morgen.addEvent({ title: "Seminar", start: morgenStart(daysAgoAtNoon(55)), timeZone: TIME_ZONE });
+    notion.addTask({ title: "Seminar", dueDate: notionDate(daysAgoAtNoon(55)), morgenEventId: linkedEventId });
+    const eventId = morgen.addEvent({ title: "Field trip", start: morgenStart(daysAgoAtNoon(45)), timeZone: TIME_ZONE });
+
+    notion.failNext("POST", /\/v1\/pages$/, { status: 400, body: { object: "error", status: 400, code: "validation_error", message: "bad" } });
+    const failedReport = await sync.backfill("morgen-to-notion", isoDaysAgo(56), isoDaysAgo(40));
+
+    assert.equal(failedReport.complete, false);
+    assert.equal(failedReport.failed.length, 1);
+    assert.equal(failedReport.nextPageStart, isoDaysAgo(49));
+    assert.equal(notion.activeTasks().length, 1);
+
+    const report = await sync.backfill("morgen-to-notion", isoDaysAgo(56), isoDaysAgo(40));
+
+    assert.equal(report.complete, true);
+    assert.equal(report.alreadyLinked, 1, "the finished page should not be backfilled again");
+    assert.deepEqual(report.created.map(item => item.morgenEventId), [eventId]);
+    assert.equal(notion.activeTasks().length, 2);
+  });
+
+  it("removes an event whose task could not be linked and creates it once on resume", async () => {
+    const linkedEventId = morgen.addEvent({ title: "Seminar", start: morgenStart(daysAgoAtNoon(45)), timeZone: TIME_ZONE });
+    notion.addTask({ title: "Seminar", dueDate: notionDate(daysAgoAtNoon(45)), morgenEventId: linkedEventId });
+    const pageId = notion.addTask({ title: "Old essay", dueDate: notionDate(daysAgoAtNoon(45)) });
+
+    notion.failNext("PATCH", /\/v1\/pages\//, { status: 400, body: { object: "error", status: 400, code: "validation_error", message: "bad" } });
+    const failedReport = await sync.backfill("notion-to-morgen", isoDaysAgo(46), isoDaysAgo(40));
+
+    assert.equal(failedReport.complete, false);
+    assert.deepEqual(failedReport.failed.map(action => [action.type, action.target]).sort(), [["create", "morgen"], ["update", "notion"]]);
+    assert.deepEqual(failedReport.unlinked, []);
+    assert.equal(failedReport.alreadyLinked, 0, "a failed page should not be counted");
+    assert.equal(morgen.events.size, 1);
+
+    const report = await sync.backfill("notion-to-morgen", isoDaysAgo(46), isoDaysAgo(40));
+
+    assert.equal(report.complete, true);
+    assert.equal(report.alreadyLinked, 1);
+    assert.deepEqual(report.created.map(item => item.notionPageId), [pageId]);
+    assert.deepEqual(report.unlinked, []);
+    assert.equal(morgen.events.size, 2);
+    assert.equal(notion.getTask(pageId).morgenEventId, report.created[0].morgenEventId);
+  });
+
+  it("only reports what it would create in dry-run mode", async () => {
+    notion.addTask({ title: "Old essay", dueDate: notionDate(daysAgoAtNoon(55)) });
+    sync.setDryRun(true);
+
+    const report = await sync.backfill("notion-to-morgen", isoDaysAgo(60), isoDaysAgo(50));
+
+    assert.equal(report.created.length, 1);
+    assert.equal(morgen.events.size, 0);
+  });
+});
+
+describe("preflight", () => {
+  it("finds no problems with a complete setup", async () => {
+    assert.deepEqual(await sync.runPreflight(), []);
+  });
+
+  it("reports missing and mistyped Notion properties", async () => {
+    delete notion.schema["Morgen Event ID"];
+    notion.schema["Last Update"] = "date";
+
+    const problems = await sync.runPreflight();
+
+    assert.equal(problems.length, 2);
+    assert.match(problems[0].message, /no "Morgen Event ID" property/);
+    assert.match(problems[1].message, /"Last Update" is a Date property, but the sync needs a Last edited time property/);
+  });
+
+  it("reports a rejected Morgen API key instead of throwing", async () => {
+    morgen.failNext("GET", /\/v3\/calendars\/list/, { status: 401, body: { message: "unauthorized" } });
+
+    const problems = await sync.runPreflight();
+
+    assert.equal(problems.length, 1);
+    assert.equal(problems[0].source, "morgen");
+    assert.match(problems[0].message, /MORGEN_API_KEY/);
+  });
+});
+
+describe("setup", () => {
+  it("adds the missing properties and Area options only once", async () => {
+    delete notion.schema["Morgen Event ID"];
+    delete notion.schema["Last Update"];
+    notion.selectOptions["Area"] = ["School"];
+
+    const plan = await sync.setupDatabase();
+
+    assert.deepEqual(plan.changes, [
+      { property: "Morgen Event ID", type: "rich_text" },
+      { property: "Last Update", type: "last_edited_time" },
+      { property: "Area", type: "select", option: "Work" },
+    ]);
+    assert.equal(notion.schema["Morgen Event ID"], "rich_text");
+    assert.equal(notion.schema["Last Update"], "last_edited_time");
+    assert.deepEqual(notion.selectOptions["Area"], ["School", "Work"]);
+
+    const secondPlan = await sync.setupDatabase();
+    assert.deepEqual(secondPlan.changes, []);
+    assert.deepEqual(await sync.runPreflight(), []);
+  });
+
+  it("only plans the changes in dry-run mode", async () => {
+    delete notion.schema["Morgen Event ID"];
+    sync.setDryRun(true);
+
+    const plan = await sync.setupDatabase();
+
+    assert.equal(plan.changes.length, 3);
+    assert.equal(notion.schema["Morgen Event ID"], undefined);
+    assert.equal(notion.selectOptions["Area"], undefined);
+  });
+});
+
+describe("scheduling", () => {
+  it("never starts a cycle while the previous one is running", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    let runs = 0;
+    const scheduler = startScheduler({
+      intervalMs: 5,
+      jitterMs: 5,
+      task: async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        running--;
+        runs++;
+      },
+    });
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await scheduler.stop();
+    const runsAtStop = runs;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    assert.equal(maxRunning, 1);
+    assert.ok(runsAtStop >= 2, "the cycles should have kept running");
+    assert.equal(running, 0, "stop should wait for the running cycle");
+    assert.equal(runs, runsAtStop, "no cycle should start after stop");
+  });
+
+  it("lets only one instance hold the lock", async () => {
+    const lockPath = path.join(tempDir, `sync-${stateCount}.lock`);
+    const lock = await acquireLock("database|calendar", lockPath);
+
+    await assert.rejects(acquireLock("database|calendar", lockPath), LockError);
+
+    await lock.release();
+    assert.equal(existsSync(lockPath), false);
+    const nextLock = await acquireLock("database|calendar", lockPath);
+    await nextLock.release();
+  });
+
+  it("takes over the lock of a process that is no longer running", async () => {
+    const lockPath = path.join(tempDir, `sync-${stateCount}.lock`);
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    writeFileSync(lockPath, JSON.stringify({ pid: deadPid, hostname: hostname(), key: "database|calendar", acquiredAt: "2020-01-01T00:00:00.000Z" }));
+
+    const lock = await acquireLock("database|calendar", lockPath);
+
+    await lock.release();
+    assert.equal(existsSync(lockPath), false);
+  });
+
+  it("lets only one of two instances take over the same stale lock", async () => {
+    const lockPath = path.join(tempDir, `sync-${stateCount}.lock`);
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid;
+    writeFileSync(lockPath, JSON.stringify({ pid: deadPid, hostname: hostname(), key: "database|calendar", acquiredAt: "2020-01-01T00:00:00.000Z" }));
+
+    const results = await Promise.allSettled([acquireLock("database|calendar", lockPath), acquireLock("database|calendar", lockPath)]);
+
+    const acquired = results.filter(result => result.status === "fulfilled") as PromiseFulfilledResult<SyncLock>[];
+    const rejected = results.filter(result => result.status === "rejected") as PromiseRejectedResult[];
+    assert.equal(acquired.length, 1);
+    assert.equal(rejected.length, 1);
+    assert.ok(rejected[0].reason instanceof LockError);
+    assert.equal(existsSync(lockPath), true, "the lock of the winner should not have been removed");
+    await acquired[0].value.release();
+    assert.equal(existsSync(lockPath), false);
+  });
+});
+
+describe("API failures", () => {
+  it("aborts the cycle without deleting anything when the Morgen list fails", async () => {
+    const { pageId } = await createLinkedPair();
+
+    morgen.failNext("GET", /\/v3\/events\/list/, { status: 500, body: { message: "boom" } }, 3);
+    await assert.rejects(sync.main());
+
+    assert.equal(notion.getTask(pageId).archived, false);
+  });
+
+  it("retries a rate-limited request within the same cycle", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    morgen.failNext("POST", /\/v3\/events\/update/, { status: 429, body: { message: "slow down" }, headers: { "Retry-After": "0" } });
+    notion.editTask(pageId, { title: "After rate limit" });
+    const plan = await sync.main();
+
+    assert.equal(plan.actions.filter(action => action.error).length, 0);
+    assert.equal(morgen.getEvent(eventId)!.title, "After rate limit");
+  });
+
+  it("creates the Morgen event of a task once when its link could not be written", async () => {
+    const pageId = notion.addTask({ title: "Write report", dueDate: notionDate(tomorrowAt(15)) });
+
+    notion.failNext("PATCH", /\/v1\/pages\//, { status: 400, body: { object: "error", status: 400, code: "validation_error", message: "bad" } });
+    const failedPlan = await sync.main();
+    assert.ok(getFailedActions(failedPlan).length);
+    assert.equal(morgen.events.size, 0);
+
+    await sync.main();
+    await sync.main();
+    assert.equal(morgen.events.size, 1);
+    assert.equal(notion.activeTasks().length, 1);
+    assert.ok(morgen.getEvent(notion.getTask(pageId).morgenEventId!));
+  });
+
+  it("retries a failed update in the next cycle instead of losing it", async () => {
+    const { pageId, eventId } = await createLinkedPair();
+
+    notion.failNext("PATCH", /\/v1\/pages\//, { status: 400, body: { object: "error", status: 400, code: "validation_error", message: "bad" } });
+    morgen.editEvent(eventId, { title: "Edited in Morgen" });
+
+    const failedPlan = await sync.main();
+    assert.equal(failedPlan.actions.filter(action => action.error).length, 1);
+    assert.notEqual(notion.getTask(pageId).title, "Edited in Morgen");
+
+    await sync.main();
+    assert.equal(notion.getTask(pageId).title, "Edited in Morgen");
+  });
+});
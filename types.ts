@@ -0,0 +1,116 @@
+import { MorgenStatus } from "./status";
+
+// Datatypes
+export type Task = {
+  pageId:string;
+  eventId:string;
+  title:string;
+  dueDate:string;
+  duration:string;
+  description:string;
+  area:string;
+  status:string;
+  lastUpdate:string;
+}
+
+export type MorgenEvent = {
+  eventId:string;
+  pageId:string;
+  accountId:string;
+  calendarId:string;
+  isSeries:boolean;
+  hasLinkTag:boolean;
+  title:string;
+  description:string;
+  start:string;
+  duration:string;
+  status:MorgenStatus;
+  lastUpdate:string;
+}
+
+export type UniversalTaskEvent = {
+  notionPageId: string | null;
+  morgenEventId: string | null;
+  title: string;
+  description: string;
+  date: string;
+  duration: string;
+  // the Notion status name on the Notion side, the MorgenStatus on the Morgen side
+  status: string;
+  // the Notion Area on the Notion side, the Area mapped to the event's calendar on the Morgen side ('' if none)
+  area: string;
+  // the Morgen account and calendar of the event; null on the Notion side
+  accountId: string | null;
+  calendarId: string | null;
+  // true if the Morgen event stands for a whole recurring series; false on the Notion side
+  isSeries: boolean;
+  // true if the Morgen description still starts with the #PAGEID tag; false on the Notion side
+  hasLinkTag: boolean;
+  lastUpdate: string;
+}
+
+export type EventPair = {
+  notion?: UniversalTaskEvent;
+  morgen?: UniversalTaskEvent;
+}
+
+export type NotionTaskCreationResponse = {
+  object: string;
+  id: string;
+  created_time: string;
+  last_edited_time: string;
+  created_by: {
+      object: string;
+      id: string;
+  };
+  last_edited_by: {
+      object: string;
+      id: string;
+  };
+  cover: null | object;
+  icon: null | object;
+  parent: {
+      type: string;
+      database_id: string;
+  };
+  archived: boolean;
+  properties: {
+      [key: string]: any;
+  };
+  url: string;
+  public_url: string | null;
+  request_id: string;
+};
+
+export type SyncState = {
+  version: number;
+  savedAt: string;
+  eventMap: { [key: string]: EventPair };
+  // missing in states saved before incremental cycles, which makes the next cycle a full one
+  cursors?: SyncCursors;
+}
+
+export type SyncCursors = {
+  // the start of the last cycle after which both sides were in sync; incremental cycles fetch the changes since then
+  changedSince: string;
+  // the start of the last full reconciliation
+  fullSyncAt: string;
+}
+
+export type LinkStatus = {
+  linked: EventPair[];
+  notionOnly: UniversalTaskEvent[];
+  morgenOnly: UniversalTaskEvent[];
+}
+
+export type PendingDeletion = {
+  key: string;
+  target: "notion" | "morgen";
+  event: UniversalTaskEvent;
+}
+
+export type ItemChanges = {
+  notionPageIds: string[];
+  // Morgen event or series IDs; a series ID also stands for all of its occurrences
+  morgenEventIds: string[];
+}
@@ -0,0 +1,252 @@
+/**
+ * HTTP receiver for Notion webhook events and Morgen change notifications.
+ * Every request must carry an HMAC-SHA256 signature of its body ("sha256=<hex>") made with the shared secret
+ * of its platform. The changed pages and events are collected for a short time and then synced together,
+ * one batch at a time, so a burst of edits becomes a single item sync.
+ *
+ * Notion sends events such as "page.properties_updated" with the page as entity and signs them with the
+ * subscription's verification token in the X-Notion-Signature header. Morgen notifications are expected as
+ * { "type": "event.updated", "data": { "id": "<eventId>" } } with the signature in the X-Morgen-Signature header.
+ */
+
+import * as http from "http";
+import { createHmac, timingSafeEqual } from "crypto";
+import { AddressInfo } from "net";
+import { ItemChanges } from "./types";
+
+export const NOTION_WEBHOOK_PATH = "/webhooks/notion";
+export const MORGEN_WEBHOOK_PATH = "/webhooks/morgen";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Webhook types
+export type WebhookServerOptions = {
+  host: string;
+  port: number;
+  // the Notion subscription's verification token; without it, Notion events are rejected
+  notionSecret?: string;
+  // the secret shared with the Morgen notification sender; without it, Morgen notifications are rejected
+  morgenSecret?: string;
+  // Notion events for pages outside this database are ignored
+  databaseId: string;
+  debounceMs: number;
+  // syncs a batch of changed items; batches never run at the same time as each other or as runExclusive tasks
+  syncChanges: (changes: ItemChanges) => Promise<void>;
+}
+
+export type WebhookServer = {
+  url: string;
+  // runs a task, such as a full sync cycle, when no batch is being synced
+  runExclusive<T>(task: () => Promise<T>): Promise<T>;
+  // resolves once every change received so far is synced
+  idle(): Promise<void>;
+  close(): Promise<void>;
+}
+
+type WebhookResponse = {
+  status: number;
+  body: object;
+}
+
+/**
+ * Starts the webhook receiver.
+ *
+ * @param {WebhookServerOptions} options - The address, secrets and sync callback of the receiver.
+ * @returns {Promise<WebhookServer>} - The running receiver.
+ */
+export async function startWebhookServer(options: WebhookServerOptions): Promise<WebhookServer> {
+  const pending = { notionPageIds: new Set<string>(), morgenEventIds: new Set<string>() };
+  let timer: NodeJS.Timeout | null = null;
+  let scheduled: Promise<void> = Promise.resolve();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.then(task);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  const syncPending = async () => {
+    const changes: ItemChanges = {
+      notionPageIds: [...pending.notionPageIds],
+      morgenEventIds: [...pending.morgenEventIds],
+    };
+    pending.notionPageIds.clear();
+    pending.morgenEventIds.clear();
+    if (!changes.notionPageIds.length && !changes.morgenEventIds.length) {
+      return;
+    }
+
+    try {
+      await options.syncChanges(changes);
+    } catch (error) {
+      console.error('Error syncing changed items:', error.message);
+    }
+  };
+
+  const addChanges = (changes: ItemChanges) => {
+    changes.notionPageIds.forEach(id => pending.notionPageIds.add(id));
+    changes.morgenEventIds.forEach(id => pending.morgenEventIds.add(id));
+    if (timer) {
+      return;
+    }
+    scheduled = new Promise<void>(resolve => {
+      timer = setTimeout(() => {
+        timer = null;
+        resolve(runExclusive(syncPending));
+      }, options.debounceMs);
+    });
+  };
+
+  const handleRequest = (request: http.IncomingMessage, rawBody: Buffer): WebhookResponse => {
+    if (request.method !== "POST") {
+      return { status: 405, body: { error: "Only POST is supported" } };
+    }
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    let body: any;
+    try {
+      body = JSON.parse(rawBody.toString("utf8"));
+    } catch (error) {
+      return { status: 400, body: { error: "The body is not valid JSON" } };
+    }
+
+    if (url.pathname === NOTION_WEBHOOK_PATH) {
+      // the first request of a new subscription carries the token to verify it with, and is not signed
+      if (typeof body.verification_token === "string" && !request.headers["x-notion-signature"]) {
+        console.log(`Notion webhook verification token received: ${body.verification_token}`);
+        console.log('Enter it in the Notion integration settings and set it as NOTION_WEBHOOK_SECRET.');
+        return { status: 200, body: { received: true } };
+      }
+      if (!verifySignature(rawBody, request.headers["x-notion-signature"], options.notionSecret)) {
+        return { status: 401, body: { error: "Invalid signature" } };
+      }
+      addChanges({ notionPageIds: parseNotionEvent(body, options.databaseId), morgenEventIds: [] });
+      return { status: 200, body: { received: true } };
+    }
+
+    if (url.pathname === MORGEN_WEBHOOK_PATH) {
+      if (!verifySignature(rawBody, request.headers["x-morgen-signature"], options.morgenSecret)) {
+        return { status: 401, body: { error: "Invalid signature" } };
+      }
+      addChanges({ notionPageIds: [], morgenEventIds: parseMorgenNotification(body) });
+      return { status: 200, body: { received: true } };
+    }
+
+    return { status: 404, body: { error: `No webhook at ${url.pathname}` } };
+  };
+
+  const server = http.createServer((req, res) => {
+    const respond = (response: WebhookResponse, onSent?: () => void) => {
+      if (response.status >= 400) {
+        console.warn(`Rejected webhook request to ${req.url}: ${response.status}`);
+      }
+      res.writeHead(response.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(response.body), onSent);
+    };
+
+    // the body is kept as bytes, since a character can be split across chunks and the signature covers the exact bytes
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+      chunks.push(chunk);
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        req.off("data", onData);
+        req.off("end", onEnd);
+        res.setHeader("Connection", "close");
+        // the rest of the body is not read; the connection is closed once the response is out
+        respond({ status: 413, body: { error: "The body is too large" } }, () => req.destroy());
+      }
+    };
+    const onEnd = () => respond(handleRequest(req, Buffer.concat(chunks)));
+    req.on("data", onData);
+    req.on("end", onEnd);
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, resolve);
+  });
+  const { address, port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://${address}:${port}`,
+    runExclusive,
+    async idle() {
+      await scheduled;
+      await queue;
+    },
+    close() {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Signs a request body the way the webhook receiver expects it.
+ * Useful for posting test payloads to a locally running receiver.
+ *
+ * @param {string | Buffer} rawBody - The exact body of the request.
+ * @param {string} secret - The shared secret.
+ * @returns {string} - The signature header value, "sha256=<hex>".
+ */
+export function signPayload(rawBody: string | Buffer, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(rawBody).digest("hex")}`;
+}
+
+/**
+ * Checks the signature of a request body in constant time.
+ *
+ * @param {string | Buffer} rawBody - The exact body of the request.
+ * @param {string | string[] | undefined} header - The signature header of the request.
+ * @param {string} [secret] - The shared secret; without one, no request is accepted.
+ * @returns {boolean} - Returns true if the signature matches.
+ */
+export function verifySignature(rawBody: string | Buffer, header: string | string[] | undefined, secret?: string): boolean {
+  if (!secret || typeof header !== "string") {
+    return false;
+  }
+  const expected = Buffer.from(signPayload(rawBody, secret));
+  const actual = Buffer.from(header);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Returns the ID of the changed page of a Notion webhook event.
+ * Events about other entities or about pages outside the task database are ignored.
+ *
+ * @param {any} body - The parsed webhook event.
+ * @param {string} databaseId - The ID of the task database.
+ * @returns {string[]} - The ID of the changed page, or nothing.
+ */
+export function parseNotionEvent(body: any, databaseId: string): string[] {
+  if (body?.entity?.type !== "page" || typeof body.entity.id !== "string") {
+    return [];
+  }
+  const parentId = body.data?.parent?.id;
+  if (parentId && normalizeNotionId(parentId) !== normalizeNotionId(databaseId)) {
+    return [];
+  }
+  return [body.entity.id];
+}
+
+/**
+ * Returns the ID of the changed event of a Morgen notification.
+ * For an occurrence of a recurring event, the series ID is returned, which stands for all of its occurrences.
+ *
+ * @param {any} body - The parsed notification.
+ * @returns {string[]} - The ID of the changed event or series, or nothing.
+ */
+export function parseMorgenNotification(body: any): string[] {
+  const event = body?.data ?? {};
+  const id = event.masterEventId || event.id;
+  return typeof id === "string" && id ? [id] : [];
+}
+
+function normalizeNotionId(id: string): string {
+  return id.replace(/-/g, '').toLowerCase();
+}